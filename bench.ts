@@ -0,0 +1,312 @@
+import {readFileSync, writeFileSync} from 'fs';
+import {parseArgs} from 'util';
+import type {Token, TokenType} from './fgd.ts';
+import type {LookAhead} from './lookahead.ts';
+import {parse, tokenizer} from './fgd.js';
+import {FGDParseError} from './errors.js';
+import {lookahead} from './lookahead.js';
+
+// Usage: node bench.js [--classes <n>] [--runs <n>] [--save <file.json>] [--compare <file.json>] [--tolerance <percent>]
+//   Times the tokenizer, the lookahead and the parser on a synthetic FGD with <n> classes (5000 by default), best of <n> runs (5).
+//   The tokenizer and the lookahead are also timed against the implementations they replaced. The tokenizers must give the same
+//   tokens and errors, on the synthetic FGD and on inputs with comments, unterminated strings, ranges and switches.
+//   --save writes the timings to a file, --compare exits with 1 if any timing is slower than the saved one by more than
+//   the tolerance (25% by default).
+
+const USAGE = 'Usage: node bench.js [--classes <n>] [--runs <n>] [--save <file.json>] [--compare <file.json>] [--tolerance <percent>]';
+
+/// Generates an FGD using most of the syntax, with `classes` point and solid classes and a base class for every ten of them.
+function synthetic_fgd(classes: number): string {
+	const lines: string[] = ['@mapsize(-16384, 16384)', '@MaterialExclusion [ "dev" "tools" ]', ''];
+	for(let idx = 0; idx < classes; idx++) {
+		if(idx % 10 === 0) {
+			lines.push(
+				`// Shared keys of the entities ${idx} to ${idx + 9}.`,
+				`@BaseClass color(255 ${idx % 256} 0) = Base${idx / 10} : "Base class ${idx / 10}"`,
+				'[',
+				'\ttargetname(target_source) : "Name" : : "The name that other entities refer to this entity by."',
+				`\tspawnflags(flags) =\n\t[\n\t\t1 : "Start off" : 0\n\t\t2 : "Silent" : 1\n\t\t${1 << (idx % 16)} : "Flag ${idx}" : 0\n\t]`,
+				'\tinput Toggle(void) : "Toggles the entity."',
+				'\toutput OnTrigger(string) : "Fired when triggered." // A trailing comment.',
+				']',
+				'',
+			);
+		}
+		const solid = idx % 3 === 0;
+		lines.push(
+			solid
+				? `@SolidClass base(Base${Math.floor(idx / 10)}) = func_entity_${idx} : "Brush entity ${idx}. " + "Its description is split over two strings."`
+				: `@PointClass base(Base${Math.floor(idx / 10)}) size(-8 -8 -${idx % 64}, 8 8 ${idx % 64}) studio("models/entity_${idx}.mdl") iconsprite("editor/entity_${idx}.vmt") = point_entity_${idx} : "Point entity ${idx}"`,
+			'[',
+			`\thealth(integer) : "Health" : ${idx * 10} : "Damage it takes before breaking."`,
+			`\tspeed(float) : "Speed" : "${(idx / 7).toFixed(3)}"`,
+			'\trendermode(choices) : "Render Mode" : 0 =',
+			'\t[',
+			'\t\t0 : "Normal"',
+			'\t\t1 : "Color"',
+			'\t\t2 : "Texture"',
+			'\t]',
+			`\tmodel(studio) : "World Model" : "models/entity_${idx}.mdl"`,
+			`\tinput SetHealth(integer) : "Sets the health to ${idx}."`,
+			'\toutput OnBreak(void) : "Fired when it breaks."',
+			']',
+			'',
+		);
+	}
+	return lines.join('\n');
+}
+
+/// The tokenizer before it tested character codes, kept as it was, which the current one must match token for token and error for error.
+function *regex_tokenizer(input: string, name: string = '', report?: (error: FGDParseError) => void, start: number = 0): IterableIterator<Token, null> {
+	const WHITESPACE = /\s/
+	const NAME_START = /[a-z_]/i
+	const NAME_PART = /[a-z/\-\d\._]/i
+	const NUMBER = /[\.\d]/
+	const SYMBOL = /[@,.:=+*&>~<!&|^]/
+	
+	let idx = start;
+	let span_start = start;
+	let span_end = start;
+	
+	const token = (type:TokenType): Token => {
+		return {type, span: [span_start, span_end = idx]};
+	};
+	
+	while(idx < input.length) {
+		let char = input[idx];
+		let char_next = input[idx+1];
+		if(char === undefined) break;
+		while(WHITESPACE.test(char)) {
+			char = input[++idx];
+			char_next = input[1+idx];
+		}
+		if(char === '/' && input[idx+1] === '/') {
+			span_start = idx;
+			while(input[++idx] != '\n' && char !== undefined) {
+				char = input[idx];
+				char_next = input[1+idx];
+			}
+			yield {type: "comment", span: [span_start, input[idx-1] === '\r' ? idx-1 : idx]};
+			continue
+		}
+		
+		if(char === undefined) break;
+		span_start = idx;
+		
+		if(SYMBOL.test(char)) {
+			idx++;
+			yield token("symbol");
+		}
+		else if(char === '(' || char === ')') {
+			idx++;
+			yield token("paren");
+		}
+		else if(char === '[' || char === ']') {
+			idx++;
+			yield token("bracket");
+		}
+		else if(char === '{' && char_next === '{') {
+			idx++;
+			idx++;
+			yield token("switch");
+		}
+		else if(char === '}' && char_next === '}') {
+			idx++;
+			idx++;
+			yield token("switch");
+		}
+		else if(char === '{' || char === '}') {
+			idx++;
+			yield token("brace");
+		}
+		else if(char === '"' || char === "'") {
+			const quote = char;
+			span_start++;
+			while(true) {
+				char = input[++idx];
+				if(char === undefined) {
+					const error = new FGDParseError('unterminated-string', `Unterminated string.`, {
+						file: name, input, span: [span_start-1, idx], expected: quote, actual: 'EOF'
+					});
+					if(!report) throw error;
+					report(error);
+					break;
+				}
+				if(char === quote && input[idx-1] !== '\\') break;
+			}
+			yield token("string");
+			idx++;
+		}
+		else if(NAME_START.test(char)) {
+			while(NAME_PART.test(input[++idx]) && input[idx] !== undefined);
+			yield token("ident");
+		}
+		else if((char >= '0' && char <= '9') || (char == '-' && NUMBER.test(char_next))) {
+			while(NUMBER.test(input[++idx]));
+			if(NAME_START.test(input[idx])) {
+				while(NAME_PART.test(input[++idx]) && input[idx] !== undefined);
+				yield token("ident");
+				continue;
+			}
+			yield token("number");
+		}
+		else if(char == '-') {
+			idx++;
+			yield token("symbol");
+		}
+		else {
+			const error = new FGDParseError('unexpected-character', `Unexpected character \`${char}\`.`, {
+				file: name, input, span: [idx, idx+1], actual: char
+			});
+			if(!report) throw error;
+			report(error);
+			idx++;
+		}
+	}
+	
+	return null;
+}
+
+/// The lookahead before it used ring buffers, moving its items with `Array.shift` and `Array.unshift`.
+function array_lookahead<T>(iterable: Iterable<T>, size: number = 2): Pick<LookAhead<T>, "next" | "ahead"> {
+	const aheadCache: T[] = [];
+	const behindCache: T[] = new Array(size + 1);
+	const iterator = iterable[Symbol.iterator]();
+	const fill = () => {
+		while(aheadCache.length <= size) {
+			const item = iterator.next();
+			if(item.done) break;
+			aheadCache.push(item.value);
+		}
+	};
+	return {
+		ahead(idx: number) {
+			fill();
+			return aheadCache[idx - 1];
+		},
+		next(): IteratorResult<T> {
+			fill();
+			if(aheadCache.length === 0) return {done: true, value: undefined};
+			const value = aheadCache.shift() as T;
+			behindCache.unshift(value);
+			behindCache.pop();
+			return {done: false, value};
+		},
+	};
+}
+
+/// Walks the tokens like the parser does, peeking before taking each one.
+function walk(tokens: Pick<LookAhead<Token>, "next" | "ahead">): number {
+	let count = 0;
+	while(true) {
+		tokens.ahead(1);
+		tokens.ahead(2);
+		if(tokens.next().done) return count;
+		count++;
+	}
+}
+
+/// The fastest of `runs` runs of `fn`, in milliseconds, after one run to warm up the JIT.
+function time(runs: number, fn: () => unknown): number {
+	fn();
+	let best = Infinity;
+	for(let run = 0; run < runs; run++) {
+		const start = performance.now();
+		fn();
+		best = Math.min(best, performance.now() - start);
+	}
+	return best;
+}
+
+function parse_args() {
+	try {
+		return parseArgs({options: {
+			classes: {type: 'string', default: '5000'},
+			runs: {type: 'string', default: '5'},
+			save: {type: 'string'},
+			compare: {type: 'string'},
+			tolerance: {type: 'string', default: '25'},
+		}});
+	} catch (error) {
+		console.error(`${error instanceof Error ? error.message : error}\n${USAGE}`);
+		process.exit(2);
+	}
+}
+
+const {values} = parse_args();
+const classes = Number(values.classes);
+const runs = Number(values.runs);
+const tolerance = Number(values.tolerance);
+if(!(classes > 0) || !(runs > 0) || !(tolerance >= 0)) {
+	console.error(USAGE);
+	process.exit(2);
+}
+
+/// The tokens of `input` and the errors on the way, both when reporting them and when throwing the first one.
+function tokenize(tokenize: typeof tokenizer, input: string): string {
+	const errors: FGDParseError[] = [];
+	const reported = [...tokenize(input, 'bench', error => errors.push(error))];
+	let thrown: unknown;
+	try {
+		[...tokenize(input, 'bench')];
+	} catch (error) {
+		thrown = error;
+	}
+	const error_of = (error: unknown) => error instanceof FGDParseError ? {code: error.code, span: error.span, message: error.toString()} : String(error);
+	return JSON.stringify({reported, errors: errors.map(error_of), thrown: thrown && error_of(thrown)});
+}
+
+const input = synthetic_fgd(classes);
+const inputs: Record<string, string> = {
+	'the synthetic FGD': input,
+	'comments': '// one\r\n@PointClass = a // two\n[ // three\r\n]//',
+	'an unterminated string': '@PointClass = a : "Not closed\n[ ]',
+	'an unterminated string with an escaped quote': "@PointClass = a : 'Not closed\\'",
+	'ranges': 'x(integer) : "X" : 1..5 : "-1..-5" -1.. 2..a 0.5..1',
+	'switches': 'model({{ a == "b" -> {"c": d}, "e" }}) {{}} {{{ }}}',
+	'unexpected characters': '@PointClass = a # [ \\ ] ; -',
+};
+for(const [name, text] of Object.entries(inputs)) {
+	if(tokenize(tokenizer, text) !== tokenize(regex_tokenizer, text)) {
+		console.error(`The tokenizer and the regex tokenizer disagree on ${name}.`);
+		process.exit(1);
+	}
+}
+const tokens = [...tokenizer(input)];
+
+const timings: Record<string, number> = {
+	tokenizer: time(runs, () => [...tokenizer(input)]),
+	lookahead: time(runs, () => walk(lookahead(tokens))),
+	parse: time(runs, () => [...parse('bench', input)]),
+};
+// The replaced implementations, only for the speedup; they are not compared with saved timings.
+const replaced: Record<string, number> = {
+	tokenizer: time(runs, () => [...regex_tokenizer(input)]),
+	lookahead: time(runs, () => walk(array_lookahead(tokens))),
+};
+
+const megabytes = input.length / 1e6;
+console.log(`${classes} classes, ${megabytes.toFixed(1)} MB, ${tokens.length} tokens, best of ${runs} runs:`);
+for(const [name, ms] of Object.entries(timings)) {
+	const speedup = replaced[name] ? `, ${(replaced[name] / ms).toFixed(2)}x the replaced ${name} (${replaced[name].toFixed(1)} ms)` : '';
+	console.log(`  ${name.padEnd(10)} ${ms.toFixed(1).padStart(8)} ms ${(megabytes / ms * 1000).toFixed(1).padStart(8)} MB/s${speedup}`);
+}
+
+if(values.save) {
+	writeFileSync(values.save, JSON.stringify({classes, timings}, null, '\t') + '\n');
+}
+if(values.compare) {
+	const saved: {classes: number, timings: Record<string, number>} = JSON.parse(readFileSync(values.compare, 'utf-8'));
+	if(saved.classes !== classes) {
+		console.error(`"${values.compare}" was measured with ${saved.classes} classes, not ${classes}.`);
+		process.exit(2);
+	}
+	let slower = 0;
+	for(const [name, ms] of Object.entries(timings)) {
+		const before = saved.timings[name];
+		if(before === undefined || ms <= before * (1 + tolerance / 100)) continue;
+		console.error(`${name} got slower: ${before.toFixed(1)} ms -> ${ms.toFixed(1)} ms.`);
+		slower++;
+	}
+	process.exitCode = slower ? 1 : 0;
+}
@@ -0,0 +1,199 @@
+import type {FGDNode, FGDClassDecl, FGDPropDecl, FGDTBExpr} from './fgd.ts';
+import type {FGDDiagnostic} from './errors.ts';
+import {resolve_bases, type FGDInheritance} from './inherit.js';
+import {value_kind} from './values.js';
+
+// NOTE: Expression leaves don't record whether they were quoted (see evaluate.ts), so the checker goes by position:
+//       the operands of conditions, comparisons and arithmetic are keys, while the results of cases,
+//       the right side of comparisons and map values are literals unless they name a declared key.
+
+type Position = "key" | "value";
+type ValueType = "number" | "string" | "boolean" | "vector" | "map" | "array" | "unknown";
+
+interface CheckContext {
+	decl: FGDClassDecl,
+	/// The class's effective properties, keyed by lower-cased name.
+	props: Map<string, FGDPropDecl>,
+	diagnostics: FGDDiagnostic[],
+}
+
+const WORD = /^[a-z_]\w*$/i;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+const KEYWORDS = new Set(['true', 'false', 'null']);
+/// Keys every entity has, whether or not its class declares them.
+const IMPLICIT_KEYS = new Set(['classname', 'origin', 'spawnflags']);
+const COMPARISONS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+const NUMERIC = new Set(['+', '-', '*', '/', '%', '&', '|', '^', '<<', '>>']);
+
+/// The types a model map entry may have, see `resolve_model`.
+const MAP_ENTRIES: Record<string, ValueType[]> = {
+	path: ['string'],
+	skin: ['number'],
+	frame: ['number'],
+	scale: ['number', 'vector'],
+};
+
+function is_expr(value: unknown): value is FGDTBExpr {
+	return typeof value === 'object' && value !== null && 'expr' in value;
+}
+
+function report(ctx: CheckContext, code: string, message: string, span: [number, number]) {
+	ctx.diagnostics.push({severity: 'warning', code, message, file: ctx.decl.file, span});
+}
+
+function lookup(ctx: CheckContext, leaf: unknown): FGDPropDecl|undefined {
+	if(typeof leaf !== 'string' || !WORD.test(leaf)) return undefined;
+	return ctx.props.get(leaf.toLowerCase());
+}
+
+function visit(ctx: CheckContext, expr: string|FGDTBExpr|Array<string|FGDTBExpr>|undefined, position: Position, span: [number, number]) {
+	if(expr === undefined) return;
+	if(typeof expr === 'string') {
+		if(position === 'key' && WORD.test(expr) && !KEYWORDS.has(expr) && !IMPLICIT_KEYS.has(expr.toLowerCase()) && !lookup(ctx, expr)) {
+			report(ctx, 'unknown-key', `Expression in "${ctx.decl.name}" uses "${expr}", which the class doesn't declare.`, span);
+		}
+		return;
+	}
+	if(Array.isArray(expr)) {
+		for(const item of expr) visit(ctx, item, position, span);
+		return;
+	}
+	
+	switch(expr.expr) {
+		case 'unary': switch(expr.op) {
+			case '{{}}':
+				visit(ctx, expr.rhs, 'value', expr.span);
+				visit(ctx, expr.lhs as string|FGDTBExpr|undefined, 'value', expr.span);
+				return;
+			case '{}':
+				return visit_map(ctx, expr);
+			case '()': case '[]':
+				return visit(ctx, expr.rhs, position, expr.span);
+			default:
+				return visit(ctx, expr.rhs, 'key', expr.span);
+		}
+		case 'postfix':
+			visit(ctx, expr.lhs as string|FGDTBExpr, 'key', expr.span);
+			visit(ctx, expr.rhs, 'value', expr.span);
+			return;
+		case 'infix':
+			if(expr.op === '->') {
+				visit(ctx, expr.lhs as string|FGDTBExpr, 'key', expr.span);
+				visit(ctx, expr.rhs, 'value', expr.span);
+			} else if(COMPARISONS.has(expr.op)) {
+				visit(ctx, expr.lhs as string|FGDTBExpr, 'key', expr.span);
+				visit(ctx, expr.rhs, 'value', expr.span);
+				check_comparison(ctx, expr);
+			} else {
+				visit(ctx, expr.lhs as string|FGDTBExpr, 'key', expr.span);
+				visit(ctx, expr.rhs, 'key', expr.span);
+			}
+			return;
+	}
+}
+
+function visit_map(ctx: CheckContext, expr: FGDTBExpr) {
+	for(const entry of Array.isArray(expr.rhs) ? expr.rhs : [expr.rhs]) {
+		if(!is_expr(entry)) continue;
+		visit(ctx, entry.rhs, 'value', entry.span);
+		
+		const key = String(entry.lhs).toLowerCase();
+		const allowed = MAP_ENTRIES[key];
+		if(!allowed) continue;
+		const type = type_of(ctx, entry.rhs);
+		if(type !== 'unknown' && !allowed.includes(type)) {
+			report(ctx, 'unsupported-value', `Map entry "${entry.lhs}" in "${ctx.decl.name}" must be a ${allowed.join(' or ')}, not a ${type}.`, entry.span);
+		}
+	}
+}
+
+/// Reports comparisons of a property with a literal that the property can never hold.
+function check_comparison(ctx: CheckContext, expr: FGDTBExpr) {
+	const decl = lookup(ctx, expr.lhs);
+	const literal = expr.rhs;
+	if(!decl || typeof literal !== 'string' || lookup(ctx, literal)) return;
+	
+	const impossible = (why: string) => report(ctx, 'impossible-comparison',
+		`Comparison "${decl.name} ${expr.op} ${literal}" in "${ctx.decl.name}" can never hold: ${why}.`, expr.span);
+	
+	if(decl.choices && decl.class.toLowerCase() === 'choices') {
+		if(expr.op !== '==' && expr.op !== '!=') return;
+		const matches = decl.choices.some(choice => {
+			const id = String(choice.id);
+			return id === literal || (NUMBER.test(id) && NUMBER.test(literal) && Number(id) === Number(literal));
+		});
+		if(!matches) impossible(`"${literal}" is not one of its choices`);
+		return;
+	}
+	
+	switch(value_kind(decl.class)) {
+		case 'integer': case 'float':
+			if(!NUMBER.test(literal)) impossible(`"${decl.name}" is a number`);
+			return;
+		case 'boolean':
+			if(!NUMBER.test(literal) && !KEYWORDS.has(literal)) impossible(`"${decl.name}" is a boolean`);
+			return;
+	}
+}
+
+function type_of(ctx: CheckContext, expr: string|FGDTBExpr|Array<string|FGDTBExpr>|undefined): ValueType {
+	if(expr === undefined) return 'unknown';
+	if(Array.isArray(expr)) return 'array';
+	if(typeof expr === 'string') {
+		if(NUMBER.test(expr)) return 'number';
+		if(expr === 'true' || expr === 'false') return 'boolean';
+		const decl = lookup(ctx, expr);
+		if(!decl) return 'string';
+		switch(value_kind(decl.class)) {
+			case 'integer': case 'float': return 'number';
+			case 'boolean': return 'boolean';
+			case 'vector': case 'color255': case 'color1': return 'vector';
+			default: return 'unknown';
+		}
+	}
+	switch(expr.expr) {
+		case 'unary': switch(expr.op) {
+			case '{}': return 'map';
+			case '[]': return 'array';
+			case '()': return type_of(ctx, expr.rhs);
+			case '!': return 'boolean';
+			case '-': case '+': case '~': return 'number';
+			default: return 'unknown';
+		}
+		case 'infix':
+			if(COMPARISONS.has(expr.op) || expr.op === '&&' || expr.op === '||') return 'boolean';
+			if(expr.op === '..') return 'array';
+			// `+` also concatenates strings.
+			if(NUMERIC.has(expr.op) && expr.op !== '+') return 'number';
+			return 'unknown';
+		default:
+			return 'unknown';
+	}
+}
+
+/// Checks the TrenchBroom expressions in the `impl` args of every class against the class's effective properties.
+/// Reports keys the class doesn't declare (`unknown-key`), comparisons with values a property can't hold (`impossible-comparison`),
+/// and model map entries of the wrong type (`unsupported-value`).
+export function check_expressions(nodes: Iterable<FGDNode>, inheritance?: FGDInheritance): FGDDiagnostic[] {
+	const list = [...nodes];
+	const {classes} = inheritance ?? resolve_bases(list);
+	const diagnostics: FGDDiagnostic[] = [];
+	
+	for(const node of list) {
+		if(node.type !== 'Class') continue;
+		const resolved = classes.get(node.name.toLowerCase());
+		const props = new Map<string, FGDPropDecl>();
+		for(const {decl} of resolved?.props ?? node.body.filter(decl => decl.kind === 'prop').map(decl => ({decl}))) {
+			props.set(decl.name.toLowerCase(), decl);
+		}
+		const ctx: CheckContext = {decl: node, props, diagnostics};
+		
+		for(const base of node.impl) {
+			if(!Array.isArray(base.args)) continue;
+			for(const arg of base.args) {
+				if(is_expr(arg)) visit(ctx, arg, 'value', arg.span);
+			}
+		}
+	}
+	return diagnostics;
+}
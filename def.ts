@@ -0,0 +1,200 @@
+import type {FGDNode, FGDClassDecl, FGDPropDecl} from './fgd.ts';
+import {FGDMetadataCollector} from './fgd.js';
+import {FGDParseError} from './errors.js';
+import {resolve_bases, type FGDResolvedClass} from './inherit.js';
+
+// NOTE: `.def` files only know classes, their size and color, spawnflags, and free text about keys.
+//       Keys are read as `string` properties with the text as description, `id) text` lines below a key make it a `choices` property,
+//       and lines that follow a key's description are added to it. Property types and defaults can't be written and are lost,
+//       and a `*/` in any written text becomes `* /`.
+
+const HEADER = /^\/\*QUAKED[ \t]+(\S+)[ \t]+\(([^)]*)\)[ \t]*(\?|\(([^)]*)\)[ \t]*\(([^)]*)\))?[ \t]*(.*)$/;
+const KEY = /^"([^"]+)"[ \t]*(.*)$/;
+const SECTION_KEY = /^([^\s:]+)[ \t]*:[ \t]*(.*)$/;
+const SECTION = /^-{2,}[ \t]*(\w+)[ \t]*-{2,}$/;
+const CHOICE = /^([^\s")]+)\)[ \t]*(.*)$/;
+const UNUSED_FLAG = /^(x|-)$/i;
+
+/// `0.5 1 0` -> `128 255 0`
+function byte_color(text: string): string[]|undefined {
+	const rgb = text.trim().split(/\s+/).map(Number);
+	if(rgb.length !== 3 || rgb.some(isNaN)) return undefined;
+	return rgb.map(c => String(Math.round(c * 255)));
+}
+
+function parse_quaked(name: string, input: string, start: number, end: number): FGDClassDecl {
+	const lines: {text: string, span: [number, number]}[] = [];
+	for(let idx = start; idx < end;) {
+		let line_end = input.indexOf('\n', idx);
+		if(line_end === -1 || line_end > end) line_end = end;
+		lines.push({text: input.slice(idx, line_end).replace(/\r$/, ''), span: [idx, line_end]});
+		idx = line_end + 1;
+	}
+	
+	const header = HEADER.exec(lines[0].text);
+	if(!header) {
+		throw new FGDParseError('unexpected-token', `Expected "/*QUAKED classname (r g b) (mins) (maxs) FLAGS...".`, {file: name, input, span: lines[0].span});
+	}
+	const [, classname, color, shape, mins, maxs, flag_text] = header;
+	const impl: FGDClassDecl['impl'] = [];
+	const body: FGDPropDecl[] = [];
+	if(mins !== undefined) impl.push({name: 'size', args: [...mins.trim().split(/\s+/), ...maxs.trim().split(/\s+/)]});
+	const rgb = byte_color(color);
+	if(rgb) impl.push({name: 'color', args: rgb});
+	
+	let flags: FGDPropDecl|undefined;
+	flag_text.trim().split(/\s+/).filter(Boolean).forEach((flag, bit) => {
+		if(UNUSED_FLAG.test(flag)) return;
+		if(bit > 31) {
+			throw new FGDParseError('unexpected-token', `Flag "${flag}" would be bit ${bit}, but spawnflags only have 32 bits.`, {file: name, input, span: lines[0].span, actual: flag});
+		}
+		flags ??= {span: lines[0].span, kind: 'prop', name: 'spawnflags', class: 'flags', title: '', default: null, description: '', choices: []};
+		flags.choices!.push({id: String(2 ** bit), name: flag, default: false});
+	});
+	if(flags) body.push(flags);
+	
+	const desc: string[] = [];
+	let section = '';
+	let prop: FGDPropDecl|undefined;
+	for(const line of lines.slice(1)) {
+		const text = line.text.trim();
+		const section_match = SECTION.exec(text);
+		if(section_match) {
+			section = section_match[1].toLowerCase();
+			prop = undefined;
+			continue;
+		}
+		
+		if(section === 'spawnflags') {
+			const match = SECTION_KEY.exec(text);
+			const choice = match && flags?.choices!.find(choice => choice.name === match[1]);
+			if(choice) choice.description = match[2];
+			continue;
+		}
+		
+		const key = KEY.exec(text) ?? (section === 'keys' ? SECTION_KEY.exec(text) : null);
+		if(key) {
+			prop = {span: line.span, kind: 'prop', name: key[1], class: 'string', title: '', default: null, description: key[2].trim()};
+			body.push(prop);
+			continue;
+		}
+		const choice = prop && CHOICE.exec(text);
+		if(prop && choice) {
+			prop.class = 'choices';
+			(prop.choices ??= []).push({id: choice[1], name: choice[2].trim()});
+			prop.span = [prop.span[0], line.span[1]];
+			continue;
+		}
+		if(prop && !prop.choices && text) {
+			prop.description = prop.description ? `${prop.description}\n${text}` : text;
+			prop.span = [prop.span[0], line.span[1]];
+			continue;
+		}
+		if(text || (desc.length && !prop)) desc.push(text);
+	}
+	while(desc.length && !desc[desc.length - 1]) desc.pop();
+	
+	return {
+		span: [start, end + 2],
+		type: 'Class',
+		kind: shape === '?' ? 'SolidClass' : 'PointClass',
+		name: classname,
+		desc: desc.length ? desc.join('\n') : undefined,
+		impl,
+		body,
+		// Like `parse`, which starts the list at the first helper.
+		...(impl.length ? {meta: []} : {}),
+	};
+}
+
+/// Reads the `/*QUAKED ... */` blocks of a Radiant `.def` file (or of any source file containing them) into class nodes.
+/// `?` instead of a size makes a `@SolidClass`, everything else is a `@PointClass`; the flags after the size become `spawnflags`,
+/// where `x` or `-` skips a bit.
+export function* parse_def(name: string, input: string): IterableIterator<FGDNode> {
+	const metadata = new FGDMetadataCollector();
+	for(let idx = input.indexOf('/*QUAKED'); idx !== -1; idx = input.indexOf('/*QUAKED', idx)) {
+		const end = input.indexOf('*/', idx + 2);
+		if(end === -1) {
+			throw new FGDParseError('unexpected-eof', `Unterminated QUAKED comment.`, {file: name, input, span: [idx, idx + 8]});
+		}
+		const decl = parse_quaked(name, input, idx, end);
+		metadata.add(decl);
+		yield decl;
+		idx = end + 2;
+	}
+	yield metadata.node(input.length);
+}
+
+function unit_color(args: unknown): string {
+	const rgb = Array.isArray(args) ? args.flatMap(arg => typeof arg === 'string' ? arg.trim().split(/\s+/) : []).map(Number) : [];
+	if(rgb.length !== 3 || rgb.some(isNaN)) return '0 0 0';
+	return rgb.map(c => String(Math.round(c / 255 * 1000) / 1000)).join(' ');
+}
+
+function helper(resolved: FGDResolvedClass, classes: Map<string, FGDResolvedClass>, name: string) {
+	for(const decl of [resolved.decl, ...resolved.ancestors.map(base => classes.get(base.toLowerCase())!.decl)]) {
+		const found = decl.impl.find(base => base.name.toLowerCase() === name);
+		if(found) return found;
+	}
+	return undefined;
+}
+
+function write_quaked(resolved: FGDResolvedClass, classes: Map<string, FGDResolvedClass>): string {
+	const {decl} = resolved;
+	let header = `/*QUAKED ${decl.name} (${unit_color(helper(resolved, classes, 'color')?.args)})`;
+	if(decl.kind.toLowerCase() === 'solidclass') {
+		header += ' ?';
+	} else {
+		const size = helper(resolved, classes, 'size')?.args;
+		const box = Array.isArray(size) ? size.flatMap(arg => typeof arg === 'string' ? arg.trim().split(/\s+/) : []) : [];
+		header += box.length === 6 ? ` (${box.slice(0, 3).join(' ')}) (${box.slice(3).join(' ')})` : ' (-8 -8 -8) (8 8 8)';
+	}
+	
+	const lines: string[] = [];
+	const flag_names: string[] = [];
+	const flag_notes: string[] = [];
+	for(const {decl: prop} of resolved.props) {
+		if(prop.class.toLowerCase() === 'flags') {
+			if(prop.name.toLowerCase() !== 'spawnflags') continue;
+			for(const choice of prop.choices ?? []) {
+				const bit = Math.log2(Number(choice.id));
+				if(!Number.isInteger(bit)) continue;
+				const flag = String(choice.name).trim().replace(/\s+/g, '_') || `FLAG${bit}`;
+				flag_names[bit] = flag;
+				if(choice.description) flag_notes.push(`${flag} : ${choice.description}`);
+			}
+			continue;
+		}
+		
+		const text = [prop.title, prop.description].filter(Boolean).join(': ');
+		const default_text = typeof prop.default === 'string' && prop.default !== '' ? ` (default ${prop.default})` : '';
+		lines.push(`"${prop.name}"${text || default_text ? '\t' : ''}${text}${default_text}`.replace(/\n/g, '\n\t'));
+		if(prop.class.toLowerCase() === 'choices') {
+			for(const choice of prop.choices ?? []) lines.push(`${choice.id})\t${choice.name}`);
+		}
+	}
+	for(let bit = 0; bit < flag_names.length; bit++) flag_names[bit] ??= 'x';
+	if(flag_names.length) header += ' ' + flag_names.join(' ');
+	
+	let out = header + '\n';
+	if(decl.desc) out += decl.desc + '\n';
+	if(lines.length) out += (decl.desc ? '\n' : '') + lines.join('\n') + '\n';
+	if(flag_notes.length) out += `-------- SPAWNFLAGS --------\n${flag_notes.join('\n')}\n`;
+	// A `*/` in any of the text would end the comment early.
+	return out.replace(/\*\//g, '* /') + '*/\n';
+}
+
+/// Writes the placeable classes as `/*QUAKED ... */` blocks, with everything they inherit.
+/// Solid classes get `?` instead of a size, and point classes without `size()` get a 16 unit box.
+export function write_def(nodes: Iterable<FGDNode>): string {
+	const list = [...nodes];
+	const {classes} = resolve_bases(list);
+	const out: string[] = [];
+	for(const node of list) {
+		if(node.type !== 'Class' || node.kind.toLowerCase() === 'baseclass') continue;
+		const resolved = classes.get(node.name.toLowerCase());
+		if(resolved?.decl !== node) continue;
+		out.push(write_quaked(resolved, classes));
+	}
+	return out.join('\n');
+}
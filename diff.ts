@@ -0,0 +1,149 @@
+import type {FGDNode, FGDClassDecl, FGDPropDecl} from './fgd.ts';
+import {class_bases} from './inherit.js';
+
+// NOTE: Classes are compared by their own declarations; a change to a base class is reported once, at the base class.
+//       Spans, comments, titles and descriptions are not compared, so reformatting a file gives no changes.
+
+export type FGDMemberKind = "prop" | "input" | "output";
+
+export type FGDChange = {class: string} & (
+	| {type: 'class-added', kind: string}
+	| {type: 'class-removed', kind: string}
+	| {type: 'kind-changed', from: string, to: string}
+	| {type: 'bases-changed', from: string[], to: string[]}
+	| {type: 'member-added', member: FGDMemberKind, name: string, value_type: string}
+	| {type: 'member-removed', member: FGDMemberKind, name: string, value_type: string}
+	| {type: 'member-retyped', member: FGDMemberKind, name: string, from: string, to: string}
+	| {type: 'default-changed', name: string, from: string|null, to: string|null}
+	| {type: 'choice-added', name: string, id: string, label: string}
+	| {type: 'choice-removed', name: string, id: string, label: string}
+	| {type: 'choice-changed', name: string, id: string, from: string, to: string}
+);
+
+function classes_of(nodes: Iterable<FGDNode>): Map<string, FGDClassDecl> {
+	const classes = new Map<string, FGDClassDecl>();
+	for(const node of nodes) {
+		if(node.type === 'Class') classes.set(node.name.toLowerCase(), node);
+	}
+	return classes;
+}
+
+function members_of(decl: FGDClassDecl): Map<string, FGDPropDecl> {
+	const members = new Map<string, FGDPropDecl>();
+	for(const prop of decl.body) members.set(`${prop.kind}:${prop.name.toLowerCase()}`, prop);
+	return members;
+}
+
+/// A value as text, without spans.
+function value_text(value: unknown): string|null {
+	if(value === null || value === undefined) return null;
+	if(typeof value === 'string') return value;
+	return JSON.stringify(value, (key, item) => key === 'span' ? undefined : item);
+}
+
+function choice_text(choice: any): string {
+	const text = JSON.stringify(String(choice.name));
+	return choice.default === undefined || choice.default === null ? text : `${text} (default ${value_text(choice.default)})`;
+}
+
+function diff_choices(cls: string, old_decl: FGDPropDecl, new_decl: FGDPropDecl, changes: FGDChange[]) {
+	const name = new_decl.name;
+	const old_choices = new Map((old_decl.choices ?? []).map(choice => [String(choice.id), choice]));
+	const new_choices = new Map((new_decl.choices ?? []).map(choice => [String(choice.id), choice]));
+	for(const [id, choice] of old_choices) {
+		if(!new_choices.has(id)) changes.push({type: 'choice-removed', class: cls, name, id, label: String(choice.name)});
+	}
+	for(const [id, choice] of new_choices) {
+		const old_choice = old_choices.get(id);
+		if(!old_choice) {
+			changes.push({type: 'choice-added', class: cls, name, id, label: String(choice.name)});
+		} else if(choice_text(old_choice) !== choice_text(choice)) {
+			changes.push({type: 'choice-changed', class: cls, name, id, from: choice_text(old_choice), to: choice_text(choice)});
+		}
+	}
+}
+
+function diff_class(old_decl: FGDClassDecl, new_decl: FGDClassDecl, changes: FGDChange[]) {
+	const cls = new_decl.name;
+	if(old_decl.kind.toLowerCase() !== new_decl.kind.toLowerCase()) {
+		changes.push({type: 'kind-changed', class: cls, from: old_decl.kind, to: new_decl.kind});
+	}
+	const old_bases = class_bases(old_decl), new_bases = class_bases(new_decl);
+	if(old_bases.join(',').toLowerCase() !== new_bases.join(',').toLowerCase()) {
+		changes.push({type: 'bases-changed', class: cls, from: old_bases, to: new_bases});
+	}
+	
+	const old_members = members_of(old_decl), new_members = members_of(new_decl);
+	for(const [key, decl] of old_members) {
+		if(!new_members.has(key)) changes.push({type: 'member-removed', class: cls, member: decl.kind, name: decl.name, value_type: decl.class});
+	}
+	for(const [key, decl] of new_members) {
+		const old = old_members.get(key);
+		if(!old) {
+			changes.push({type: 'member-added', class: cls, member: decl.kind, name: decl.name, value_type: decl.class});
+			continue;
+		}
+		if(old.class.toLowerCase() !== decl.class.toLowerCase()) {
+			changes.push({type: 'member-retyped', class: cls, member: decl.kind, name: decl.name, from: old.class, to: decl.class});
+		}
+		const old_default = value_text(old.default), new_default = value_text(decl.default);
+		if(old_default !== new_default) {
+			changes.push({type: 'default-changed', class: cls, name: decl.name, from: old_default, to: new_default});
+		}
+		if(old.choices || decl.choices) diff_choices(cls, old, decl, changes);
+	}
+}
+
+/// Compares the classes of two FGDs (matched by case-insensitive name) and lists what changed from `old_nodes` to `new_nodes`.
+export function diff_fgd(old_nodes: Iterable<FGDNode>, new_nodes: Iterable<FGDNode>): FGDChange[] {
+	const old_classes = classes_of(old_nodes), new_classes = classes_of(new_nodes);
+	const changes: FGDChange[] = [];
+	for(const [key, decl] of old_classes) {
+		if(!new_classes.has(key)) changes.push({type: 'class-removed', class: decl.name, kind: decl.kind});
+	}
+	for(const [key, decl] of new_classes) {
+		const old = old_classes.get(key);
+		if(old) diff_class(old, decl, changes);
+		else changes.push({type: 'class-added', class: decl.name, kind: decl.kind});
+	}
+	return changes;
+}
+
+function quote(value: string|null): string {
+	return value === null ? '(none)' : JSON.stringify(value);
+}
+
+function change_line(change: FGDChange): string {
+	switch(change.type) {
+		case 'class-added': return `+ @${change.kind} ${change.class}`;
+		case 'class-removed': return `- @${change.kind} ${change.class}`;
+		case 'kind-changed': return `~ kind: @${change.from} -> @${change.to}`;
+		case 'bases-changed': return `~ bases: (${change.from.join(', ')}) -> (${change.to.join(', ')})`;
+		case 'member-added': return `+ ${change.member} ${change.name}(${change.value_type})`;
+		case 'member-removed': return `- ${change.member} ${change.name}(${change.value_type})`;
+		case 'member-retyped': return `~ ${change.member} ${change.name}: ${change.from} -> ${change.to}`;
+		case 'default-changed': return `~ prop ${change.name}: default ${quote(change.from)} -> ${quote(change.to)}`;
+		case 'choice-added': return `+ ${change.name} choice ${change.id}: ${JSON.stringify(change.label)}`;
+		case 'choice-removed': return `- ${change.name} choice ${change.id}: ${JSON.stringify(change.label)}`;
+		case 'choice-changed': return `~ ${change.name} choice ${change.id}: ${change.from} -> ${change.to}`;
+	}
+}
+
+/// Formats changes as a text report, with the changes of each class indented below its name.
+export function format_diff(changes: FGDChange[]): string {
+	const lines: string[] = [];
+	let current: string|undefined;
+	for(const change of changes) {
+		if(change.type === 'class-added' || change.type === 'class-removed') {
+			lines.push(change_line(change));
+			current = undefined;
+			continue;
+		}
+		if(change.class !== current) {
+			lines.push(`~ ${change.class}`);
+			current = change.class;
+		}
+		lines.push('\t' + change_line(change));
+	}
+	return lines.length ? lines.join('\n') + '\n' : '';
+}
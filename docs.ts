@@ -0,0 +1,236 @@
+import type {FGDNode, FGDClassDecl, FGDPropDecl} from './fgd.ts';
+import {resolve_bases, class_bases, type FGDResolvedClass, type FGDInheritedDecl} from './inherit.js';
+import {write_class_base} from './writer.js';
+
+// NOTE: Pages only link to each other with relative paths and carry their own styles, so the output works from the file system.
+
+export type FGDDocsFormat = "html" | "markdown";
+
+export interface FGDDocsOptions {
+	format?: FGDDocsFormat,
+	/// Title of the index page.
+	title?: string,
+}
+
+type Cell = string | {text: string, href: string} | {code: string};
+
+interface Renderer {
+	ext: string,
+	page(title: string, body: string[]): string,
+	heading(level: number, text: string): string,
+	paragraph(text: string): string,
+	list(items: Cell[][]): string,
+	table(head: string[], rows: Cell[][]): string,
+}
+
+function escape_html(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const STYLE = `body{font-family:sans-serif;max-width:60em;margin:auto;padding:1em;line-height:1.4}`
+	+ `table{border-collapse:collapse;margin:.5em 0}th,td{border:1px solid #ccc;padding:.2em .5em;text-align:left;vertical-align:top}`
+	+ `code{background:#eee;padding:0 .2em}`;
+
+const html: Renderer = {
+	ext: 'html',
+	page: (title, body) => `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escape_html(title)}</title>\n<style>${STYLE}</style>\n</head>\n<body>\n${body.join('\n')}\n</body>\n</html>\n`,
+	heading: (level, text) => `<h${level}>${escape_html(text)}</h${level}>`,
+	paragraph: text => `<p>${escape_html(text).replace(/\n/g, '<br>')}</p>`,
+	list: items => `<ul>\n${items.map(cells => `<li>${cells.map(html_cell).join(' ')}</li>`).join('\n')}\n</ul>`,
+	table: (head, rows) => `<table>\n<tr>${head.map(text => `<th>${escape_html(text)}</th>`).join('')}</tr>\n`
+		+ rows.map(row => `<tr>${row.map(cell => `<td>${html_cell(cell)}</td>`).join('')}</tr>\n`).join('') + `</table>`,
+};
+
+function html_cell(cell: Cell): string {
+	if(typeof cell === 'string') return escape_html(cell).replace(/\n/g, '<br>');
+	if('code' in cell) return cell.code ? `<code>${escape_html(cell.code)}</code>` : '';
+	return `<a href="${escape_html(cell.href)}">${escape_html(cell.text)}</a>`;
+}
+
+function escape_markdown(text: string): string {
+	return text.replace(/([\\`*_[\]<>|])/g, '\\$1').replace(/\n/g, '<br>');
+}
+
+const markdown: Renderer = {
+	ext: 'md',
+	page: (title, body) => body.join('\n\n') + '\n',
+	heading: (level, text) => `${'#'.repeat(level)} ${escape_markdown(text)}`,
+	paragraph: text => text.split('\n').map(escape_markdown).join('  \n'),
+	list: items => items.map(cells => `- ${cells.map(markdown_cell).join(' ')}`).join('\n'),
+	table: (head, rows) => `| ${head.map(escape_markdown).join(' | ')} |\n|${head.map(() => ' --- |').join('')}\n`
+		+ rows.map(row => `| ${row.map(markdown_cell).join(' | ')} |`).join('\n'),
+};
+
+function markdown_cell(cell: Cell): string {
+	if(typeof cell === 'string') return escape_markdown(cell);
+	if('code' in cell) return cell.code ? '`` ' + cell.code.replace(/\n/g, ' ') + ' ``' : '';
+	return `[${escape_markdown(cell.text)}](${encodeURI(cell.href)})`;
+}
+
+/// Assigns every class a file name that is unique even on case-insensitive file systems.
+function page_names(classes: Iterable<FGDResolvedClass>): Map<string, string> {
+	const names = new Map<string, string>();
+	const used = new Set<string>();
+	for(const resolved of classes) {
+		const base = resolved.decl.name.toLowerCase().replace(/[^\w.-]+/g, '_') || '_';
+		let name = base;
+		for(let n = 2; used.has(name); n++) name = `${base}-${n}`;
+		used.add(name);
+		names.set(resolved.decl.name.toLowerCase(), name);
+	}
+	return names;
+}
+
+function class_tags(decl: FGDClassDecl): string[] {
+	const tags: string[] = [];
+	for(const {name, args} of decl.impl) {
+		if(name.toLowerCase() !== 'tags') continue;
+		if(typeof args === 'string') tags.push(args);
+		else if(Array.isArray(args)) tags.push(...args.filter((arg): arg is string => typeof arg === 'string'));
+	}
+	return tags;
+}
+
+/// The `@EntityGroup` of a class, from its `metadata { entity_tool_group = "..." }`.
+function class_group(decl: FGDClassDecl): string|undefined {
+	for(const {name, args} of decl.impl) {
+		if(name.toLowerCase() !== 'metadata' || typeof args !== 'object' || Array.isArray(args)) continue;
+		const group = args.entity_tool_group;
+		if(typeof group === 'string') return group;
+	}
+	return undefined;
+}
+
+function default_text(decl: FGDPropDecl): string {
+	if(decl.default === null || decl.default === undefined) return '';
+	if(typeof decl.default === 'string') return decl.default;
+	return JSON.stringify(decl.default);
+}
+
+interface PageContext {
+	r: Renderer,
+	names: Map<string, string>,
+	classes: Map<string, FGDResolvedClass>,
+	/// Direct subclasses by lower-cased class name.
+	derived: Map<string, string[]>,
+}
+
+function class_link(ctx: PageContext, name: string, prefix: string): Cell {
+	const page = ctx.names.get(name.toLowerCase());
+	if(!page) return name;
+	return {text: ctx.classes.get(name.toLowerCase())!.decl.name, href: `${prefix}${page}.${ctx.r.ext}`};
+}
+
+function from_cell(ctx: PageContext, resolved: FGDResolvedClass, item: FGDInheritedDecl): Cell {
+	return item.from === resolved.decl.name ? '' : class_link(ctx, item.from, '');
+}
+
+function class_page(ctx: PageContext, resolved: FGDResolvedClass): string {
+	const {r} = ctx;
+	const {decl} = resolved;
+	const body: string[] = [
+		r.list([[{text: 'Index', href: `../index.${r.ext}`}]]),
+		r.heading(1, decl.name),
+		r.paragraph(`@${decl.kind}`),
+	];
+	if(decl.desc) body.push(r.paragraph(decl.desc));
+	
+	const bases = class_bases(decl);
+	if(bases.length) body.push(r.heading(2, 'Base classes'), r.list(bases.map(base => [class_link(ctx, base, '')])));
+	const derived = ctx.derived.get(decl.name.toLowerCase()) ?? [];
+	if(derived.length) body.push(r.heading(2, 'Derived classes'), r.list(derived.map(name => [class_link(ctx, name, '')])));
+	const helpers = decl.impl.filter(base => base.name.toLowerCase() !== 'base');
+	if(helpers.length) body.push(r.heading(2, 'Helpers'), r.list(helpers.map(base => [{code: write_class_base(base)}])));
+	
+	if(resolved.props.length) {
+		body.push(r.heading(2, 'Properties'));
+		const groups = new Map<string, FGDInheritedDecl[]>();
+		for(const item of resolved.props) {
+			const group = item.decl.group ?? '';
+			if(!groups.has(group)) groups.set(group, []);
+			groups.get(group)!.push(item);
+		}
+		for(const [group, items] of groups) {
+			if(groups.size > 1) body.push(r.heading(3, group || 'General'));
+			body.push(r.table(['Key', 'Type', 'Title', 'Default', 'Description', 'Inherited from'], items.map(item => [
+				{code: item.decl.name}, item.decl.class, item.decl.title, {code: default_text(item.decl)}, item.decl.description ?? '', from_cell(ctx, resolved, item),
+			])));
+		}
+		
+		for(const {decl: prop} of resolved.props) {
+			if(!prop.choices?.length) continue;
+			const flags = prop.class.toLowerCase() === 'flags';
+			body.push(r.heading(3, `${flags ? 'Flags' : 'Choices'} of ${prop.name}`));
+			body.push(flags
+				? r.table(['Value', 'Name', 'Default'], prop.choices.map(choice => [{code: String(choice.id)}, String(choice.name), choice.default ? 'on' : 'off']))
+				: r.table(['Value', 'Name'], prop.choices.map(choice => [{code: String(choice.id)}, String(choice.name)])));
+		}
+	}
+	
+	for(const [title, items] of [['Inputs', resolved.inputs], ['Outputs', resolved.outputs]] as const) {
+		if(!items.length) continue;
+		body.push(r.heading(2, title), r.table(['Name', 'Type', 'Description', 'Inherited from'], items.map(item => [
+			{code: item.decl.name}, item.decl.class, item.decl.description || item.decl.title, from_cell(ctx, resolved, item),
+		])));
+	}
+	return r.page(decl.name, body);
+}
+
+function index_page(ctx: PageContext, nodes: FGDNode[], title: string): string {
+	const {r} = ctx;
+	const link = (name: string): Cell[] => [class_link(ctx, name, 'classes/')];
+	const by = (key: (decl: FGDClassDecl) => string[]) => {
+		const index = new Map<string, string[]>();
+		for(const {decl} of ctx.classes.values()) {
+			for(const item of key(decl)) {
+				if(!index.has(item)) index.set(item, []);
+				index.get(item)!.push(decl.name);
+			}
+		}
+		return index;
+	};
+	const sections = (heading: string, index: Map<string, string[]>, order: string[] = []) => {
+		if(index.size === 0) return [];
+		const keys = [...order.filter(key => index.has(key)), ...[...index.keys()].filter(key => !order.includes(key)).sort()];
+		return [r.heading(2, heading), ...keys.flatMap(key => [r.heading(3, key), r.list(index.get(key)!.sort().map(link))])];
+	};
+	
+	const declared_groups = nodes.flatMap(node => node.type === 'EntityGroup' ? [node.name] : []);
+	const groups = by(decl => {
+		const group = class_group(decl);
+		if(group !== undefined) return [group];
+		return declared_groups.length && decl.kind.toLowerCase() !== 'baseclass' ? ['Other'] : [];
+	});
+	return r.page(title, [
+		r.heading(1, title),
+		...sections('Entity groups', groups, [...declared_groups, 'Other']),
+		...sections('Tags', by(class_tags)),
+		...sections('Class kinds', by(decl => [`@${decl.kind}`])),
+	]);
+}
+
+/// Generates an entity reference: `index.<ext>` lists the classes by `@EntityGroup` (from `metadata { entity_tool_group }`),
+/// by tag and by class kind, and `classes/<name>.<ext>` documents each class with its bases and subclasses,
+/// its inherited properties grouped by `group`, choices and flags, inputs and outputs.
+/// Returns the file contents by relative path.
+export function generate_docs(nodes: Iterable<FGDNode>, options: FGDDocsOptions = {}): Map<string, string> {
+	const list = [...nodes];
+	const r = options.format === 'markdown' ? markdown : html;
+	const {classes} = resolve_bases(list);
+	const derived = new Map<string, string[]>();
+	for(const {decl, bases} of classes.values()) {
+		for(const base of bases) {
+			const key = base.toLowerCase();
+			if(!derived.has(key)) derived.set(key, []);
+			derived.get(key)!.push(decl.name);
+		}
+	}
+	const ctx: PageContext = {r, names: page_names(classes.values()), classes, derived};
+	
+	const files = new Map<string, string>();
+	files.set(`index.${r.ext}`, index_page(ctx, list, options.title ?? 'Entity reference'));
+	for(const resolved of classes.values()) {
+		files.set(`classes/${ctx.names.get(resolved.decl.name.toLowerCase())}.${r.ext}`, class_page(ctx, resolved));
+	}
+	return files;
+}
@@ -0,0 +1,137 @@
+import type {FGDNode, FGDPropDecl} from './fgd.ts';
+import {resolve_bases, type FGDResolvedClass} from './inherit.js';
+import {value_kind} from './values.js';
+
+export interface FGDDtsOptions {
+	/// A line for the header comment, e.g. the name of the FGD file.
+	source?: string,
+}
+
+const IDENT = /^[a-z_$][\w$]*$/i;
+
+/// `func_door` -> `FuncDoor`
+function pascal_case(name: string): string {
+	const out = name.split(/[^a-z\d]+/i).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+	return /^\d/.test(out) || out === '' ? '_' + out : out;
+}
+
+function string_literal(value: string): string {
+	return JSON.stringify(value);
+}
+
+function property_key(name: string): string {
+	return IDENT.test(name) ? name : string_literal(name);
+}
+
+function jsdoc(lines: string[], indent: string): string {
+	const text = lines.flatMap(line => line.split('\n')).map(line => line.replace(/\*\//g, '*\\/'));
+	while(text.length && text[text.length - 1] === '') text.pop();
+	if(text.length === 0) return '';
+	if(text.length === 1) return `${indent}/** ${text[0]} */\n`;
+	return `${indent}/**\n${text.map(line => `${indent} *${line ? ' ' + line : ''}\n`).join('')}${indent} */\n`;
+}
+
+function prop_doc(decl: FGDPropDecl): string[] {
+	const lines: string[] = [];
+	if(decl.title) lines.push(decl.title);
+	if(decl.description) {
+		if(lines.length) lines.push('');
+		lines.push(decl.description);
+	}
+	if(typeof decl.default === 'string' && decl.default !== '') {
+		lines.push(`@default ${string_literal(decl.default)}`);
+	}
+	return lines;
+}
+
+function prop_type(decl: FGDPropDecl, flags_type: string): string {
+	const cls = decl.class.toLowerCase();
+	if(cls === 'flags' && decl.choices) return `Bitfield<${flags_type}>`;
+	if(decl.choices?.length) return decl.choices.map(choice => string_literal(String(choice.id))).join(' | ');
+	switch(value_kind(decl.class)) {
+		case 'integer': case 'float': return 'number';
+		case 'boolean': return 'boolean';
+		case 'vector': return 'Vector';
+		case 'color255': case 'color1': return 'Color';
+		case 'string': return 'string';
+	}
+}
+
+function name_union(items: {decl: FGDPropDecl}[]): string {
+	const names = [...new Set(items.map(({decl}) => decl.name))];
+	return names.length ? names.map(string_literal).join(' | ') : 'never';
+}
+
+/// Returns `base`, or `base` with the first number that makes it unused, and marks it (and `suffixes` after it) as used.
+function unique_name(base: string, used: Set<string>, suffixes: string[] = ['']): string {
+	let name = base;
+	for(let n = 2; suffixes.some(suffix => used.has(name + suffix)); n++) name = base + n;
+	for(const suffix of suffixes) used.add(name + suffix);
+	return name;
+}
+
+/// `flags_types` are the names of the bit types of the class's `flags` properties, by property name.
+function write_class(resolved: FGDResolvedClass, type: string, flags_types: Map<string, string>): string {
+	const {decl} = resolved;
+	let out = '';
+	const flags: string[] = [];
+	const props: string[] = [];
+	
+	for(const {decl: prop} of resolved.props) {
+		let flags_type = '';
+		if(prop.class.toLowerCase() === 'flags' && prop.choices) {
+			flags_type = flags_types.get(prop.name)!;
+			const bits = prop.choices.map(choice => `${jsdoc([String(choice.name)], '\t')}\t| ${Number(choice.id)}\n`);
+			flags.push(`${jsdoc([`Bits of \`${decl.name}.${prop.name}\`.`], '')}export type ${flags_type} =\n${bits.join('') || '\tnever\n'};\n`);
+		}
+		props.push(`${jsdoc(prop_doc(prop), '\t')}\t${property_key(prop.name)}?: ${prop_type(prop, flags_type)};\n`);
+	}
+	
+	out += flags.map(text => text + '\n').join('');
+	out += jsdoc(decl.desc ? [decl.desc, '', `\`@${decl.kind}\``] : [`\`@${decl.kind}\``], '');
+	out += `export interface ${type} {\n\tclassname: ${string_literal(decl.name)};\n${props.join('')}}\n\n`;
+	out += `export type ${type}Input = ${name_union(resolved.inputs)};\n`;
+	out += `export type ${type}Output = ${name_union(resolved.outputs)};\n`;
+	return out;
+}
+
+/// Generates a `.d.ts` module with an interface for every class, including the properties it inherits.
+/// Properties are optional and typed after their class, `choices` become unions of their ids, and `flags` become a `Bitfield` of their bits.
+/// Every class also gets `<Class>Input` and `<Class>Output` unions of its input and output names.
+/// `Entity` is the union of all placeable classes (all but `@BaseClass`), and `EntityClasses` maps classnames to their interfaces.
+export function generate_dts(nodes: Iterable<FGDNode>, options: FGDDtsOptions = {}): string {
+	const {classes} = resolve_bases(nodes);
+	const types = new Map<FGDResolvedClass, string>();
+	const used = new Set<string>(['Bitfield', 'Vector', 'Color', 'Entity', 'EntityClasses']);
+	for(const resolved of classes.values()) {
+		types.set(resolved, unique_name(pascal_case(resolved.decl.name), used, ['', 'Input', 'Output']));
+	}
+	// The bit types are named after the class and the property, which can be the name of another class.
+	const flags_types = new Map<FGDResolvedClass, Map<string, string>>();
+	for(const [resolved, type] of types) {
+		const names = new Map<string, string>();
+		for(const {decl: prop} of resolved.props) {
+			if(prop.class.toLowerCase() !== 'flags' || !prop.choices || names.has(prop.name)) continue;
+			names.set(prop.name, unique_name(`${type}${pascal_case(prop.name)}`, used));
+		}
+		flags_types.set(resolved, names);
+	}
+	
+	let out = `// Generated${options.source ? ` from ${options.source}` : ''}.\n\n`;
+	out += `export type Bitfield<Bit extends number> = number & {readonly __bits?: Bit};\n`;
+	out += `export type Vector = [x: number, y: number, z: number];\n`;
+	out += `export type Color = [r: number, g: number, b: number] | [r: number, g: number, b: number, brightness: number];\n`;
+	
+	const placeable: FGDResolvedClass[] = [];
+	for(const [resolved, type] of types) {
+		out += '\n' + write_class(resolved, type, flags_types.get(resolved)!);
+		if(resolved.decl.kind.toLowerCase() !== 'baseclass') placeable.push(resolved);
+	}
+	
+	out += `\nexport type Entity = ${placeable.length ? placeable.map(resolved => types.get(resolved)).join('\n\t| ') : 'never'};\n`;
+	out += `\nexport interface EntityClasses {\n`;
+	for(const resolved of placeable) {
+		out += `\t${string_literal(resolved.decl.name)}: ${types.get(resolved)};\n`;
+	}
+	return out + '}\n';
+}
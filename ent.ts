@@ -0,0 +1,458 @@
+import {randomUUID} from 'crypto';
+import type {FGDNode, FGDClassDecl, FGDClassBaseDecl, FGDPropDecl, FGDTBExpr} from './fgd.ts';
+import {TokenStream, FGDMetadataCollector, parse_expression, looks_like_description} from './fgd.js';
+import {FGDParseError, type FGDDiagnostic} from './errors.js';
+import {resolve_bases, type FGDResolvedClass} from './inherit.js';
+import {write_expr} from './writer.js';
+
+// NOTE: ENT has no inheritance, so classes are exported with all the properties and helpers they inherit, and base classes are left out.
+//       Importing an exported file therefore gives flattened classes, and anything reported as a warning on export is gone.
+
+export interface FGDEntExport {
+	xml: string,
+	/// Everything that couldn't be represented in ENT and was left out or approximated.
+	warnings: FGDDiagnostic[],
+}
+
+/// Element names of the ENT property types, by FGD property class.
+const ENT_TYPES: Record<string, string> = {
+	string: 'string',
+	integer: 'integer',
+	int: 'integer',
+	float: 'real',
+	boolean: 'boolean',
+	bool: 'boolean',
+	choices: 'choice',
+	target_destination: 'target',
+	target_source: 'targetname',
+	color255: 'color',
+	color1: 'color',
+	angle: 'angles',
+	studio: 'model',
+	sound: 'sound',
+	decal: 'texture',
+	material: 'texture',
+	sprite: 'texture',
+};
+
+const POINT_KINDS = ['pointclass', 'npcclass', 'keyframeclass', 'moveclass', 'filterclass'];
+const MODEL_HELPERS = ['model', 'studio', 'studioprop'];
+
+export function escape_xml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function attributes(attrs: Record<string, string|undefined>): string {
+	return Object.entries(attrs)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => ` ${key}="${escape_xml(value!)}"`)
+		.join('');
+}
+
+function element(tag: string, attrs: Record<string, string|undefined>, text?: string): string {
+	if(!text) return `<${tag}${attributes(attrs)}/>`;
+	return `<${tag}${attributes(attrs)}>${escape_xml(text)}</${tag}>`;
+}
+
+function numbers(args: FGDClassBaseDecl['args']): number[]|undefined {
+	if(!Array.isArray(args)) return undefined;
+	const values = args.flatMap(arg => typeof arg === 'string' ? arg.trim().split(/\s+/) : ['NaN']).map(Number);
+	return values.some(isNaN) ? undefined : values;
+}
+
+function unit_color(c: number): string {
+	return String(Math.round(c / 255 * 1000) / 1000);
+}
+
+/// A helper of the class or, failing that, of the first ancestor that has it.
+function find_helper(resolved: FGDResolvedClass, classes: Map<string, FGDResolvedClass>, names: string[]): FGDClassBaseDecl|undefined {
+	for(const decl of [resolved.decl, ...resolved.ancestors.map(name => classes.get(name.toLowerCase())!.decl)]) {
+		const helper = decl.impl.find(base => names.includes(base.name.toLowerCase()));
+		if(helper) return helper;
+	}
+	return undefined;
+}
+
+function export_class(resolved: FGDResolvedClass, classes: Map<string, FGDResolvedClass>, warn: (message: string, decl: FGDClassDecl|FGDPropDecl) => void): string {
+	const {decl} = resolved;
+	const solid = decl.kind.toLowerCase() === 'solidclass';
+	const attrs: Record<string, string|undefined> = {name: decl.name};
+	
+	const color = find_helper(resolved, classes, ['color']);
+	if(color) {
+		const rgb = numbers(color.args);
+		if(rgb?.length === 3) attrs.color = rgb.map(unit_color).join(' ');
+		else warn(`Color of "${decl.name}" is not three numbers.`, decl);
+	}
+	if(!solid) {
+		const size = find_helper(resolved, classes, ['size']);
+		const box = size && numbers(size.args);
+		if(box?.length === 6) attrs.box = box.join(' ');
+		else if(box?.length === 3) attrs.box = [...box.map(n => -n / 2), ...box.map(n => n / 2)].join(' ');
+		else if(size) warn(`Size of "${decl.name}" is not a box.`, decl);
+		
+		const model = find_helper(resolved, classes, MODEL_HELPERS);
+		if(model) {
+			if(typeof model.args === 'string') attrs.model = model.args;
+			else if(Array.isArray(model.args) && model.args.length === 1) attrs.model = typeof model.args[0] === 'string' ? model.args[0] : write_expr(model.args[0]);
+			else warn(`Model of "${decl.name}" can't be represented.`, decl);
+		}
+	}
+	for(const base of decl.impl) {
+		const name = base.name.toLowerCase();
+		if(['base', 'color', 'size', ...MODEL_HELPERS].includes(name)) continue;
+		warn(`Helper "${base.name}" of "${decl.name}" can't be represented in ENT.`, decl);
+	}
+	
+	const lines: string[] = [];
+	if(decl.desc) lines.push(escape_xml(decl.desc));
+	for(const {decl: prop, from} of resolved.props) {
+		// Problems with inherited properties are reported at the class, the property may be in another file.
+		lines.push(...export_prop(decl, prop, message => warn(message, from === decl.name ? prop : decl)));
+	}
+	if(resolved.inputs.length || resolved.outputs.length) {
+		warn(`The ${resolved.inputs.length} inputs and ${resolved.outputs.length} outputs of "${decl.name}" can't be represented in ENT.`, decl);
+	}
+	
+	const tag = solid ? 'group' : 'point';
+	return `<${tag}${attributes(attrs)}>\n${lines.map(line => line + '\n').join('')}</${tag}>`;
+}
+
+function export_prop(cls: FGDClassDecl, decl: FGDPropDecl, warn: (message: string) => void): string[] {
+	const name = decl.title || undefined;
+	const value = typeof decl.default === 'string' && decl.default !== '' ? decl.default : undefined;
+	const prop_class = decl.class.toLowerCase();
+	
+	const metaprops = [
+		decl.group !== undefined ? `group "${decl.group}"` : undefined,
+		decl.report ? 'report' : undefined,
+		decl.readonly ? 'readonly' : undefined,
+		decl.important ? 'important' : undefined,
+		...Object.keys(decl.metaprops ?? {}),
+	].filter(metaprop => metaprop !== undefined);
+	if(metaprops.length) warn(`Metaprops ${metaprops.join(', ')} of "${cls.name}.${decl.name}" can't be represented in ENT.`);
+	
+	if(prop_class === 'flags') {
+		if(decl.name.toLowerCase() !== 'spawnflags') {
+			warn(`Flags "${cls.name}.${decl.name}" can't be represented, ENT only has spawnflags.`);
+			return [];
+		}
+		const flags: string[] = [];
+		for(const choice of decl.choices ?? []) {
+			const id = Number(choice.id);
+			const bit = Math.log2(id);
+			if(!Number.isInteger(bit)) {
+				warn(`Flag ${choice.id} of "${cls.name}" is not a single bit.`);
+				continue;
+			}
+			if(choice.default !== undefined && choice.default !== false) {
+				warn(`Flag ${choice.id} of "${cls.name}" is on by default, which can't be represented in ENT.`);
+			}
+			const label = String(choice.name);
+			const key = label.toUpperCase().replace(/[^A-Z\d]+/g, '_').replace(/^_|_$/g, '') || `FLAG${bit}`;
+			flags.push(element('flag', {key, name: label, bit: String(bit)}, choice.description !== undefined ? String(choice.description) : undefined));
+		}
+		return flags;
+	}
+	
+	// Choices of any other class, like `integer`, can only be kept as a `<choice>`.
+	let tag = decl.choices?.length ? 'choice' : ENT_TYPES[prop_class];
+	if(!tag) {
+		warn(`Property class "${decl.class}" of "${cls.name}.${decl.name}" has no ENT type and is written as a string.`);
+		tag = 'string';
+	}
+	const attrs = {key: decl.name, name, value};
+	if(prop_class === 'color255' && value !== undefined) {
+		// ENT colors are always 0..1.
+		const rgb = numbers(value.trim().split(/\s+/));
+		if(rgb) attrs.value = rgb.slice(0, 3).map(unit_color).join(' ');
+	}
+	if(tag !== 'choice') return [element(tag, attrs, decl.description)];
+	
+	for(const choice of decl.choices ?? []) {
+		if(choice.default !== undefined || choice.description !== undefined) {
+			warn(`Description of choice ${choice.id} of "${cls.name}.${decl.name}" can't be represented in ENT.`);
+		}
+	}
+	const items = (decl.choices ?? []).map(choice => `\t${element('item', {name: String(choice.name), value: String(choice.id)})}`);
+	return [`<${tag}${attributes(attrs)}>${decl.description ? escape_xml(decl.description) : ''}`, ...items, `</${tag}>`];
+}
+
+/// Exports the classes to TrenchBroom's ENT (XML) format: `@SolidClass`es become `<group>`s and point classes `<point>`s,
+/// with their `color()`, `size()` and `model()` helpers as attributes and their properties as typed elements.
+/// Everything else (inputs and outputs, other helpers and declarations, unknown property classes) is reported in `warnings`.
+export function export_ent(nodes: Iterable<FGDNode>): FGDEntExport {
+	const list = [...nodes];
+	const {classes} = resolve_bases(list);
+	const warnings: FGDDiagnostic[] = [];
+	const out: string[] = [];
+	
+	for(const node of list) {
+		const warn = (message: string, decl: FGDClassDecl|FGDPropDecl) => {
+			warnings.push({severity: 'warning', code: 'ent-unsupported', message, file: node.file, span: decl.span});
+		};
+		if(node.type === '__PARSER_METADATA__') continue;
+		if(node.type !== 'Class') {
+			warnings.push({severity: 'warning', code: 'ent-unsupported', message: `@${node.type} can't be represented in ENT.`, file: node.file, span: node.span});
+			continue;
+		}
+		const kind = node.kind.toLowerCase();
+		if(kind === 'baseclass') continue;
+		if(kind !== 'solidclass' && !POINT_KINDS.includes(kind)) {
+			warn(`@${node.kind} "${node.name}" can't be represented in ENT.`, node);
+			continue;
+		}
+		const resolved = classes.get(node.name.toLowerCase());
+		// Only the last declaration of a class name counts.
+		if(resolved?.decl !== node) continue;
+		out.push(export_class(resolved, classes, warn));
+	}
+	
+	return {xml: `<?xml version="1.0"?>\n<classes>\n${out.map(text => text + '\n').join('')}</classes>\n`, warnings};
+}
+
+interface XMLElement {
+	tag: string,
+	attrs: Record<string, XMLAttribute>,
+	children: Array<XMLElement|XMLText>,
+	span: [number, number],
+}
+
+interface XMLAttribute {
+	value: string,
+	/// Span of the value, without its quotes.
+	span: [number, number],
+}
+
+interface XMLText {
+	text: string,
+	span: [number, number],
+}
+
+const XML_ENTITIES: Record<string, string> = {amp: '&', lt: '<', gt: '>', quot: '"', apos: "'"};
+
+function unescape_xml(text: string): string {
+	return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+		if(name[0] === '#') return String.fromCodePoint(name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+		return XML_ENTITIES[name] ?? entity;
+	});
+}
+
+/// A minimal XML reader: elements, attributes, text and CDATA; declarations, processing instructions and comments are skipped.
+function parse_xml(name: string, input: string): XMLElement {
+	let idx = 0;
+	const error = (code: 'unexpected-token'|'unexpected-eof', reason: string, span: [number, number]) => {
+		return new FGDParseError(code, reason, {file: name, input, span});
+	};
+	const skip_to = (end: string) => {
+		const found = input.indexOf(end, idx);
+		if(found === -1) throw error('unexpected-eof', `Expected "${end}", but reached EOF.`, [idx, input.length]);
+		idx = found + end.length;
+	};
+	const NAME = /[^\s/>=]+/y;
+	const read_name = (): string => {
+		NAME.lastIndex = idx;
+		const match = NAME.exec(input);
+		if(!match) throw error(idx < input.length ? 'unexpected-token' : 'unexpected-eof', `Expected a name.`, [idx, idx + 1]);
+		idx += match[0].length;
+		return match[0];
+	};
+	const skip_space = () => {
+		while(idx < input.length && /\s/.test(input[idx])) idx++;
+	};
+	
+	const element = (): XMLElement => {
+		const start = idx++;
+		const node: XMLElement = {tag: read_name(), attrs: {}, children: [], span: [start, start]};
+		for(;;) {
+			skip_space();
+			if(input.startsWith('/>', idx)) {
+				idx += 2;
+				node.span[1] = idx;
+				return node;
+			}
+			if(input[idx] === '>') {
+				idx++;
+				break;
+			}
+			const attr = read_name();
+			skip_space();
+			if(input[idx] !== '=') throw error('unexpected-token', `Expected "=" after attribute "${attr}".`, [idx, idx + 1]);
+			idx++;
+			skip_space();
+			const quote = input[idx];
+			if(quote !== '"' && quote !== "'") throw error('unexpected-token', `Expected a quoted value for attribute "${attr}".`, [idx, idx + 1]);
+			const value_start = ++idx;
+			skip_to(quote);
+			node.attrs[attr] = {value: unescape_xml(input.slice(value_start, idx - 1)), span: [value_start, idx - 1]};
+		}
+		
+		for(;;) {
+			if(idx >= input.length) throw error('unexpected-eof', `Element <${node.tag}> is never closed.`, [start, start + 1]);
+			if(input.startsWith('</', idx)) {
+				const close = idx;
+				idx += 2;
+				const tag = read_name();
+				if(tag !== node.tag) throw error('unexpected-token', `Expected </${node.tag}>, but got </${tag}>.`, [close, idx]);
+				skip_to('>');
+				node.span[1] = idx;
+				return node;
+			}
+			if(input.startsWith('<!--', idx)) {
+				skip_to('-->');
+			} else if(input.startsWith('<![CDATA[', idx)) {
+				const text_start = idx + 9;
+				skip_to(']]>');
+				node.children.push({text: input.slice(text_start, idx - 3), span: [text_start, idx - 3]});
+			} else if(input[idx] === '<') {
+				node.children.push(element());
+			} else {
+				const text_start = idx;
+				const end = input.indexOf('<', idx);
+				idx = end === -1 ? input.length : end;
+				node.children.push({text: unescape_xml(input.slice(text_start, idx)), span: [text_start, idx]});
+			}
+		}
+	};
+	
+	for(;;) {
+		skip_space();
+		if(idx >= input.length) throw error('unexpected-eof', `Expected a root element, but reached EOF.`, [idx, idx]);
+		if(input.startsWith('<?', idx)) skip_to('?>');
+		else if(input.startsWith('<!--', idx)) skip_to('-->');
+		else if(input.startsWith('<!', idx)) skip_to('>');
+		else if(input[idx] === '<') return element();
+		else throw error('unexpected-token', `Expected a root element.`, [idx, idx + 1]);
+	}
+}
+
+function text_of(node: XMLElement): string {
+	return node.children.map(child => 'text' in child ? child.text : '').join('').trim();
+}
+
+/// FGD property classes of the ENT property types.
+const FGD_CLASSES: Record<string, string> = {
+	string: 'string',
+	integer: 'integer',
+	real: 'float',
+	boolean: 'boolean',
+	target: 'target_destination',
+	targetname: 'target_source',
+	color: 'color255',
+	angles: 'angle',
+	model: 'studio',
+	sound: 'sound',
+	texture: 'material',
+};
+
+/// `0.5 1 0` -> `128 255 0`
+function byte_color(value: string): string|undefined {
+	const rgb = value.trim().split(/\s+/).map(Number);
+	if(rgb.length < 3 || rgb.some(isNaN)) return undefined;
+	return rgb.slice(0, 3).map(c => String(Math.round(c * 255))).join(' ');
+}
+
+function shift_expr(expr: string|FGDTBExpr|Array<string|FGDTBExpr>|null|undefined, offset: number) {
+	if(expr === null || expr === undefined || typeof expr === 'string') return;
+	if(Array.isArray(expr)) {
+		for(const item of expr) shift_expr(item, offset);
+		return;
+	}
+	expr.span = [expr.span[0] + offset, expr.span[1] + offset];
+	shift_expr(expr.lhs as string|FGDTBExpr, offset);
+	shift_expr(expr.rhs, offset);
+}
+
+function import_class(node: XMLElement, lists: Map<string, XMLElement>, name: string): FGDClassDecl {
+	const desc = text_of(node);
+	const decl: FGDClassDecl = {
+		span: node.span,
+		type: 'Class',
+		kind: node.tag === 'group' ? 'SolidClass' : 'PointClass',
+		name: node.attrs.name?.value ?? randomUUID(),
+		desc: desc || undefined,
+		impl: [],
+		body: [],
+	};
+	
+	const box = node.attrs.box?.value.trim().split(/\s+/);
+	if(box?.length === 6) decl.impl.push({name: 'size', args: box});
+	const color = node.attrs.color && byte_color(node.attrs.color.value);
+	if(color) decl.impl.push({name: 'color', args: color.split(' ')});
+	const model = node.attrs.model;
+	if(model) {
+		if(/^\s*\{/.test(model.value)) {
+			// Spans inside the expression are only exact if the attribute contains no XML entities.
+			const expr = parse_expression(new TokenStream(name, model.value));
+			shift_expr(expr, model.span[0]);
+			decl.impl.push({name: 'model', args: expr === null ? [] : [expr]});
+		} else {
+			decl.impl.push({name: 'model', args: model.value});
+		}
+	}
+	// Like `parse`, which starts the list at the first helper.
+	if(decl.impl.length) decl.meta = [];
+	
+	let flags: FGDPropDecl|undefined;
+	for(const child of node.children) {
+		if('text' in child) continue;
+		if(child.tag === 'flag') {
+			if(!flags) {
+				flags = {span: child.span, kind: 'prop', name: 'spawnflags', class: 'flags', title: '', default: null, description: '', choices: []};
+				decl.body.push(flags);
+			}
+			flags.span = [flags.span[0], child.span[1]];
+			const choice: Record<string, any> = {id: String(2 ** Number(child.attrs.bit?.value ?? 0)), name: child.attrs.name?.value ?? child.attrs.key?.value ?? '', default: false};
+			const description = text_of(child);
+			if(description) choice.description = description;
+			flags.choices!.push(choice);
+			continue;
+		}
+		
+		const list = child.tag === 'choice' ? child : lists.get(child.tag);
+		const prop: FGDPropDecl = {
+			span: child.span,
+			kind: 'prop',
+			name: child.attrs.key?.value ?? '',
+			class: list ? 'choices' : FGD_CLASSES[child.tag] ?? child.tag,
+			title: child.attrs.name?.value ?? '',
+			default: child.attrs.value?.value ?? null,
+			description: text_of(child),
+		};
+		if(prop.class === 'color255' && prop.default !== null) prop.default = byte_color(prop.default) ?? prop.default;
+		// The same clean-up `parse_prop_decl` does for the equivalent FGD.
+		if(/^On[a-zA-Z]/.test(prop.name)) prop.kind = 'output';
+		if(prop.title && prop.description === '' && looks_like_description(prop.title)) {
+			prop.description = prop.title;
+			prop.title = '';
+		} else if(prop.title.endsWith('.')) {
+			prop.title = prop.title.slice(0, -1);
+		}
+		if(list) {
+			prop.choices = list.children
+				.filter((item): item is XMLElement => !('text' in item) && item.tag === 'item')
+				.map(item => ({id: item.attrs.value?.value ?? '', name: item.attrs.name?.value ?? ''}));
+		}
+		decl.body.push(prop);
+	}
+	return decl;
+}
+
+/// Reads TrenchBroom ENT (XML) definitions into the same nodes `parse` yields for the equivalent FGD, with spans into the XML.
+/// `<point>` and `<group>` become `@PointClass` and `@SolidClass`, `<flag>`s are collected into a `spawnflags(flags)` property,
+/// and `<choice>` properties as well as properties typed by a `<list>` become `choices`.
+export function* parse_ent(name: string, input: string): IterableIterator<FGDNode> {
+	const root = parse_xml(name, input);
+	const metadata = new FGDMetadataCollector();
+	const lists = new Map<string, XMLElement>();
+	for(const child of root.children) {
+		if(!('text' in child) && child.tag === 'list' && child.attrs.name) lists.set(child.attrs.name.value, child);
+	}
+	for(const child of root.children) {
+		if('text' in child || (child.tag !== 'point' && child.tag !== 'group')) continue;
+		const decl = import_class(child, lists, name);
+		metadata.add(decl);
+		yield decl;
+	}
+	yield metadata.node(input.length);
+}
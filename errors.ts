@@ -0,0 +1,152 @@
+export type FGDErrorCode = "unexpected-character"
+	| "unexpected-token"
+	| "unterminated-string"
+	| "unexpected-eof"
+	| "unknown-declaration"
+	| "include-cycle"
+	| "include-missing"
+;
+
+export interface FGDPosition {
+	/// 1-based line number.
+	line: number,
+	/// 1-based column, counted in UTF-16 code units (a tab is one column).
+	column: number,
+}
+
+/// Maps global character offsets (as used by all spans) to line/column positions and back.
+export class LineIndex {
+	#input: string;
+	#starts: number[] = [0];
+	constructor(input: string) {
+		this.#input = input;
+		for(let idx = input.indexOf('\n'); idx !== -1; idx = input.indexOf('\n', idx + 1)) {
+			this.#starts.push(idx + 1);
+		}
+	}
+	
+	get lines() {
+		return this.#starts.length;
+	}
+	
+	position(offset: number): FGDPosition {
+		offset = Math.max(0, Math.min(offset, this.#input.length));
+		let lo = 0, hi = this.#starts.length - 1;
+		while(lo < hi) {
+			const mid = (lo + hi + 1) >> 1;
+			if(this.#starts[mid] <= offset) lo = mid;
+			else hi = mid - 1;
+		}
+		return {line: lo + 1, column: offset - this.#starts[lo] + 1};
+	}
+	
+	offset(position: FGDPosition): number {
+		const line = Math.max(1, Math.min(position.line, this.#starts.length));
+		const start = this.#starts[line - 1];
+		return Math.min(start + position.column - 1, this.line_end(line));
+	}
+	
+	span(span: [number, number]): {start: FGDPosition, end: FGDPosition} {
+		return {start: this.position(span[0]), end: this.position(span[1])};
+	}
+	
+	/// Formats a span as `LINE:COLUMN-LINE:COLUMN`.
+	span_str(span: [number, number]): string {
+		const {start, end} = this.span(span);
+		return `${start.line}:${start.column}-${end.line}:${end.column}`;
+	}
+	
+	/// Returns the text of a line, without its line terminator.
+	line(line: number): string {
+		return this.#input.slice(this.#starts[line - 1], this.line_end(line));
+	}
+	
+	line_end(line: number): number {
+		let end = line < this.#starts.length ? this.#starts[line] - 1 : this.#input.length;
+		if(end > this.#starts[line - 1] && this.#input[end - 1] === '\r') end--;
+		return end;
+	}
+}
+
+/// Renders the lines covered by `span` with a gutter of line numbers and carets underneath the span.
+export function code_frame(input: string|LineIndex, span: [number, number], context: number = 1): string {
+	const index = typeof input === 'string' ? new LineIndex(input) : input;
+	const {start, end} = index.span(span);
+	const first = Math.max(1, start.line - context);
+	const last = Math.min(index.lines, end.line);
+	const width = String(last).length;
+	const lines: string[] = [];
+	
+	for(let line = first; line <= last; line++) {
+		const text = index.line(line);
+		lines.push(`${String(line).padStart(width)} | ${text}`);
+		if(line < start.line) continue;
+		
+		const from = line === start.line ? start.column - 1 : 0;
+		const to = line === end.line ? Math.max(end.column - 1, from + 1) : Math.max(text.length, from + 1);
+		const pad = text.slice(0, from).replace(/[^\t]/g, ' ');
+		lines.push(`${' '.repeat(width)} | ${pad}${'^'.repeat(to - from)}`);
+	}
+	return lines.join('\n');
+}
+
+export interface FGDDiagnostic {
+	severity: "error"|"warning"|"info",
+	code: string,
+	message: string,
+	file?: string,
+	span: [number, number],
+}
+
+export interface FGDParseErrorOptions {
+	file: string,
+	input: string,
+	span: [number, number],
+	expected?: string,
+	actual?: string,
+}
+
+export class FGDParseError extends Error {
+	code: FGDErrorCode;
+	/// The message without location.
+	reason: string;
+	file: string;
+	span: [number, number];
+	line: number;
+	column: number;
+	expected?: string;
+	actual?: string;
+	frame: string;
+	
+	constructor(code: FGDErrorCode, reason: string, options: FGDParseErrorOptions) {
+		const index = new LineIndex(options.input);
+		const {line, column} = index.position(options.span[0]);
+		super(`${options.file}:${line}:${column}: ${reason}`);
+		this.name = 'FGDParseError';
+		this.code = code;
+		this.reason = reason;
+		this.file = options.file;
+		this.span = options.span;
+		this.line = line;
+		this.column = column;
+		this.expected = options.expected;
+		this.actual = options.actual;
+		this.frame = code_frame(index, options.span);
+	}
+	
+	diagnostic(): FGDDiagnostic {
+		return {severity: 'error', code: this.code, message: this.reason, file: this.file, span: this.span};
+	}
+	
+	toString() {
+		return `${this.message} [${this.code}]\n${this.frame}`;
+	}
+}
+
+/// Thrown by the parser when it needs to look past the end of partial input (see `FGDParseOptions.partial`).
+export class FGDIncompleteInputError extends Error {
+	constructor() {
+		super('The input ended before the parser could continue.');
+		this.name = 'FGDIncompleteInputError';
+	}
+}
@@ -0,0 +1,241 @@
+import type {FGDClassDecl, FGDTBExpr} from './fgd.ts';
+import type {FGDResolvedClass} from './inherit.ts';
+
+// NOTE: The parser does not record whether an expression leaf was a quoted string or a bare identifier.
+//       A leaf is therefore read as a variable if it is shaped like an identifier and names a key of the scope
+//       (or one of the declared `keys`); everything else is a literal.
+
+export type FGDELValue = null
+	| boolean
+	| number
+	| string
+	| FGDELValue[]
+	| {[key: string]: FGDELValue}
+;
+
+export interface FGDEvalOptions {
+	/// Keys that are variables even if the entity doesn't set them (e.g. the class's properties); unset variables are `null`.
+	keys?: Iterable<string>,
+}
+
+export class FGDEvalError extends Error {
+	span?: [number, number];
+	constructor(message: string, span?: [number, number]) {
+		super(message);
+		this.name = 'FGDEvalError';
+		this.span = span;
+	}
+}
+
+const WORD = /^[a-z_]\w*$/i;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+const RANGE = /^(-?\d+)\.\.(-?\d+)$/;
+/// The most items a range may have, so a range like `0..1e9` doesn't exhaust memory.
+const MAX_RANGE = 65536;
+
+/// Evaluates a TrenchBroom expression against an entity's key/value map.
+/// Switch cases are tried in order and the first one that yields a value wins, `->` yields its right side only if its left side is truthy,
+/// and operands are converted to numbers for arithmetic, bitwise and ordering operators (entity values are strings).
+export function evaluate(expr: string|FGDTBExpr|Array<string|FGDTBExpr>|null|undefined, scope: Record<string, string>, options: FGDEvalOptions = {}): FGDELValue|undefined {
+	const keys = new Set<string>(options.keys ?? []);
+	return evaluate_expr(expr, scope, keys);
+}
+
+function evaluate_leaf(leaf: string, scope: Record<string, string>, keys: Set<string>): FGDELValue {
+	if(NUMBER.test(leaf)) return Number(leaf);
+	const range = RANGE.exec(leaf);
+	if(range) return make_range(Number(range[1]), Number(range[2]));
+	if(WORD.test(leaf)) {
+		if(Object.hasOwn(scope, leaf)) return scope[leaf];
+		if(keys.has(leaf)) return null;
+		if(leaf === 'true') return true;
+		if(leaf === 'false') return false;
+		if(leaf === 'null') return null;
+	}
+	return leaf;
+}
+
+function evaluate_expr(expr: string|FGDTBExpr|Array<string|FGDTBExpr>|null|undefined, scope: Record<string, string>, keys: Set<string>): FGDELValue|undefined {
+	if(expr === null || expr === undefined) return undefined;
+	if(typeof expr === 'string') return evaluate_leaf(expr, scope, keys);
+	if(Array.isArray(expr)) return expr.length === 0 ? undefined : expr.map(item => evaluate_expr(item, scope, keys) ?? null);
+	
+	const rhs = () => evaluate_expr(expr.rhs, scope, keys);
+	const lhs = () => evaluate_expr(expr.lhs, scope, keys);
+	
+	switch(expr.expr) {
+		case 'unary': switch(expr.op) {
+			case '{{}}': {
+				for(const item of Array.isArray(expr.rhs) ? expr.rhs : [expr.rhs]) {
+					const value = evaluate_expr(item, scope, keys);
+					if(value !== undefined) return value;
+				}
+				return lhs();
+			}
+			case '{}': {
+				const map: {[key: string]: FGDELValue} = {};
+				for(const entry of Array.isArray(expr.rhs) ? expr.rhs : [expr.rhs]) {
+					if(typeof entry === 'string') continue;
+					map[String(entry.lhs)] = evaluate_expr(entry.rhs, scope, keys) ?? null;
+				}
+				return map;
+			}
+			case '()': return rhs();
+			case '[]': {
+				const value = rhs();
+				if(value === undefined) return [];
+				// A range is the list itself, whether it was tokenized as one number (`1..3`) or as an operator (`1 .. 3`).
+				const range = typeof expr.rhs === 'string' ? RANGE.test(expr.rhs) : !Array.isArray(expr.rhs) && expr.rhs.op === '..';
+				return Array.isArray(value) && range ? value : [value];
+			}
+			case '!': return !truthy(rhs());
+			case '-': return -to_number(rhs(), expr);
+			case '+': return to_number(rhs(), expr);
+			case '~': return ~to_number(rhs(), expr);
+			default: throw new FGDEvalError(`Unknown unary operator ${expr.op}.`, expr.span);
+		}
+		case 'postfix': return subscript(lhs(), rhs(), expr);
+		case 'infix': switch(expr.op) {
+			case '->': return truthy(lhs()) ? rhs() : undefined;
+			case '&&': return truthy(lhs()) ? truthy(rhs()) : false;
+			case '||': return truthy(lhs()) ? true : truthy(rhs());
+			case '==': return equals(lhs(), rhs());
+			case '!=': return !equals(lhs(), rhs());
+			case '<': return compare(lhs(), rhs()) < 0;
+			case '<=': return compare(lhs(), rhs()) <= 0;
+			case '>': return compare(lhs(), rhs()) > 0;
+			case '>=': return compare(lhs(), rhs()) >= 0;
+			case '..': return make_range(to_number(lhs(), expr), to_number(rhs(), expr), expr.span);
+			case '+': {
+				const a = lhs(), b = rhs();
+				if(is_numeric(a) && is_numeric(b)) return to_number(a, expr) + to_number(b, expr);
+				if(Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+				return to_string(a) + to_string(b);
+			}
+			case '-': return to_number(lhs(), expr) - to_number(rhs(), expr);
+			case '*': return to_number(lhs(), expr) * to_number(rhs(), expr);
+			case '/': return to_number(lhs(), expr) / to_number(rhs(), expr);
+			case '%': return to_number(lhs(), expr) % to_number(rhs(), expr);
+			case '&': return to_number(lhs(), expr) & to_number(rhs(), expr);
+			case '|': return to_number(lhs(), expr) | to_number(rhs(), expr);
+			case '^': return to_number(lhs(), expr) ^ to_number(rhs(), expr);
+			case '<<': return to_number(lhs(), expr) << to_number(rhs(), expr);
+			case '>>': return to_number(lhs(), expr) >> to_number(rhs(), expr);
+			default: throw new FGDEvalError(`Unknown infix operator ${expr.op}.`, expr.span);
+		}
+		default: throw new FGDEvalError(`Unknown expression type ${expr.expr}.`, expr.span);
+	}
+}
+
+function make_range(from: number, to: number, span?: [number, number]): number[] {
+	if(!Number.isInteger(from) || !Number.isInteger(to)) throw new FGDEvalError(`Range bounds must be integers, got ${from}..${to}.`, span);
+	if(Math.abs(to - from) >= MAX_RANGE) throw new FGDEvalError(`Range ${from}..${to} has more than ${MAX_RANGE} items.`, span);
+	const range: number[] = [];
+	if(from <= to) for(let i = from; i <= to; i++) range.push(i);
+	else for(let i = from; i >= to; i--) range.push(i);
+	return range;
+}
+
+function is_numeric(value: FGDELValue|undefined): boolean {
+	return typeof value === 'number' || typeof value === 'boolean' || (typeof value === 'string' && NUMBER.test(value.trim()));
+}
+
+function to_number(value: FGDELValue|undefined, expr: FGDTBExpr): number {
+	if(typeof value === 'number') return value;
+	if(typeof value === 'boolean') return value ? 1 : 0;
+	if(value === null || value === undefined || value === '') return 0;
+	if(typeof value === 'string' && NUMBER.test(value.trim())) return Number(value);
+	throw new FGDEvalError(`Cannot convert ${JSON.stringify(value)} to a number.`, expr.span);
+}
+
+function to_string(value: FGDELValue|undefined): string {
+	if(value === null || value === undefined) return '';
+	if(typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+export function truthy(value: FGDELValue|undefined): boolean {
+	if(value === null || value === undefined) return false;
+	if(typeof value === 'boolean') return value;
+	if(typeof value === 'number') return value !== 0;
+	if(typeof value === 'string') return value !== '' && value !== '0' && value.toLowerCase() !== 'false';
+	if(Array.isArray(value)) return value.length > 0;
+	return Object.keys(value).length > 0;
+}
+
+function equals(a: FGDELValue|undefined, b: FGDELValue|undefined): boolean {
+	if((a === null || a === undefined) || (b === null || b === undefined)) return (a ?? null) === (b ?? null);
+	if(typeof a === 'boolean' || typeof b === 'boolean') return truthy(a) === truthy(b);
+	if(is_numeric(a) && is_numeric(b)) return Number(a) === Number(b);
+	return to_string(a) === to_string(b);
+}
+
+function compare(a: FGDELValue|undefined, b: FGDELValue|undefined): number {
+	if(is_numeric(a) && is_numeric(b)) return Number(a) - Number(b);
+	return to_string(a).localeCompare(to_string(b));
+}
+
+function subscript(value: FGDELValue|undefined, index: FGDELValue|undefined, expr: FGDTBExpr): FGDELValue|undefined {
+	if(value === null || value === undefined) return undefined;
+	if(Array.isArray(index)) {
+		const items = index.map(i => subscript(value, i, expr));
+		return typeof value === 'string' ? items.join('') : items.map(item => item ?? null);
+	}
+	if(typeof value === 'object' && !Array.isArray(value)) {
+		return value[to_string(index)];
+	}
+	if(Array.isArray(value) || typeof value === 'string') {
+		let i = to_number(index ?? null, expr);
+		if(i < 0) i += value.length;
+		return value[i];
+	}
+	throw new FGDEvalError(`Cannot subscript ${JSON.stringify(value)}.`, expr.span);
+}
+
+export interface FGDModelSpec {
+	path: string,
+	skin?: number,
+	frame?: number,
+	scale?: number,
+}
+
+const MODEL_HELPERS = ['model', 'studio', 'studioprop', 'iconsprite', 'sprite'];
+
+/// The variables of an entity: the class's defaults, overridden by the entity's own keys.
+export function entity_scope(resolved: FGDResolvedClass, entity: Record<string, string>): Record<string, string> {
+	const scope: Record<string, string> = {};
+	for(const {decl} of resolved.props) {
+		if(typeof decl.default === 'string') scope[decl.name] = decl.default;
+	}
+	return Object.assign(scope, entity);
+}
+
+/// Resolves the model an editor would show for an entity of class `decl`, from its `model(...)`-like helper.
+export function resolve_model(decl: FGDClassDecl, scope: Record<string, string>, options: FGDEvalOptions = {}): FGDModelSpec|undefined {
+	const keys = options.keys ?? decl.body.map(prop => prop.name);
+	for(const base of decl.impl) {
+		if(!MODEL_HELPERS.includes(base.name.toLowerCase())) continue;
+		let value: FGDELValue|undefined;
+		if(typeof base.args === 'string') {
+			value = base.args;
+		} else if(Array.isArray(base.args) && base.args.length) {
+			value = evaluate(base.args[0], scope, {keys});
+		} else {
+			continue;
+		}
+		const spec = model_spec(value);
+		if(spec) return spec;
+	}
+	return undefined;
+}
+
+function model_spec(value: FGDELValue|undefined): FGDModelSpec|undefined {
+	if(typeof value === 'string') return value ? {path: value} : undefined;
+	if(value === null || value === undefined || typeof value !== 'object' || Array.isArray(value)) return undefined;
+	if(typeof value.path !== 'string' || !value.path) return undefined;
+	const spec: FGDModelSpec = {path: value.path};
+	for(const key of ['skin', 'frame', 'scale'] as const) {
+		if(value[key] !== undefined && value[key] !== null && is_numeric(value[key])) spec[key] = Number(value[key]);
+	}
+	return spec;
+}
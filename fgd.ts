@@ -1,11 +1,15 @@
 import { randomUUID } from 'crypto';
 import type {LookAhead } from './lookahead.ts';
 import {lookahead } from './lookahead.js';
+import type {FGDErrorCode, FGDDiagnostic} from './errors.ts';
+import type {FGDTypedValue} from './values.ts';
+import {FGDParseError, FGDIncompleteInputError} from './errors.js';
 
 export type TokenType = "symbol"
 	| "paren" | "bracket" | "brace"
 	| "switch"
 	| "ident" | "string" | "number"
+	| "comment"
 ;
 
 export interface Token {
@@ -13,104 +17,116 @@ export interface Token {
 	span: [number, number]
 }
 
-export function *tokenizer(input: string): IterableIterator<Token, null> {
-	const WHITESPACE = /\s/
-	const NAME_START = /[a-z_]/i
-	const NAME_PART = /[a-z/\-\d\._]/i
-	const NUMBER = /[\.\d]/
-	const SYMBOL = /[@,.:=+*&>~<!&|^]/
-	
-	let idx = 0;
-	let span_start = 0;
-	let span_end = 0;
-	
-	const token = (type:TokenType): Token => {
-		return {type, span: [span_start, span_end = idx]};
-	};
+// Character codes, tested by the tokenizer instead of regular expressions.
+const TAB = 9, LINE_FEED = 10, CARRIAGE_RETURN = 13, SPACE = 32;
+const QUOTE = 34, APOSTROPHE = 39, MINUS = 45, DOT = 46, SLASH = 47, BACKSLASH = 92;
+
+/// `\s` in regular expressions.
+function is_whitespace(code: number): boolean {
+	if(code < 128) return code === SPACE || (code >= TAB && code <= CARRIAGE_RETURN);
+	return code === 0xa0 || code === 0x1680 || (code >= 0x2000 && code <= 0x200a) || code === 0x2028 || code === 0x2029
+		|| code === 0x202f || code === 0x205f || code === 0x3000 || code === 0xfeff;
+}
+
+function is_digit(code: number): boolean {
+	return code >= 48 && code <= 57;
+}
+
+function is_name_start(code: number): boolean {
+	return (code >= 97 && code <= 122) || (code >= 65 && code <= 90) || code === 95;
+}
+
+function is_name_part(code: number): boolean {
+	return is_name_start(code) || is_digit(code) || code === SLASH || code === MINUS || code === DOT;
+}
+
+/// One of `@,.:=+*&>~<!|^`, indexed by character code.
+const SYMBOLS = new Uint8Array(128);
+for(const char of '@,.:=+*&>~<!|^') SYMBOLS[char.charCodeAt(0)] = 1;
+
+/// If `report` is given, malformed input is passed to it and skipped instead of being thrown.
+/// Tokenizing begins at `start`, which must not be inside a token.
+export function *tokenizer(input: string, name: string = '', report?: (error: FGDParseError) => void, start: number = 0): IterableIterator<Token, null> {
+	const length = input.length;
+	let idx = start;
 	
-	while(idx < input.length) {
-		let char = input[idx];
-		let char_next = input[idx+1];
-		if(char === undefined) break;
-		while(WHITESPACE.test(char)) {
-			char = input[++idx];
-			char_next = input[1+idx];
-		}
-		if(char === '/' && input[idx+1] === '/') {
-			while(input[++idx] != '\n' && char !== undefined) {
-				char = input[idx];
-				char_next = input[1+idx];
-			}
-			continue
-		}
-		
-		if(char === undefined) break;
-		span_start = idx;
+	while(idx < length) {
+		let code = input.charCodeAt(idx);
+		while(is_whitespace(code)) code = input.charCodeAt(++idx);
+		if(idx >= length) break;
+		const span_start = idx;
+		const code_next = input.charCodeAt(idx + 1);
 		
-		if(SYMBOL.test(char)) {
-			idx++;
-			yield token("symbol");
+		if(code === SLASH && code_next === SLASH) {
+			// A comment without a line break after it ends one past the end of the input.
+			const newline = input.indexOf('\n', idx + 2);
+			idx = newline === -1 ? length + 1 : newline;
+			yield {type: "comment", span: [span_start, input.charCodeAt(idx - 1) === CARRIAGE_RETURN ? idx - 1 : idx]};
+			continue;
 		}
-		else if(char === '(' || char === ')') {
-			idx++;
-			yield token("paren");
-		}
-		else if(char === '[' || char === ']') {
-			idx++;
-			yield token("bracket");
-		}
-		else if(char === '{' && char_next === '{') {
-			idx++;
+		
+		let type: TokenType;
+		if(code < 128 && SYMBOLS[code]) {
 			idx++;
-			yield token("switch");
+			type = "symbol";
 		}
-		else if(char === '}' && char_next === '}') {
+		else if(code === 40 || code === 41) {
 			idx++;
-			idx++;
-			yield token("switch");
+			type = "paren";
 		}
-		else if(char === '{' || char === '}') {
+		else if(code === 91 || code === 93) {
 			idx++;
-			yield token("brace");
+			type = "bracket";
 		}
-		else if(char === '"') {
-			span_start++;
-			while(true) {
-				char = input[++idx];
-				if(char === '"' && input[idx-1] !== '\\') break;
-			}
-			yield token("string");
-			idx++;
+		else if(code === 123 || code === 125) {
+			idx += code_next === code ? 2 : 1;
+			type = code_next === code ? "switch" : "brace";
 		}
-		else if(char === "'") {
-			span_start++;
-			while(true) {
-				char = input[++idx];
-				if(char === "'" && input[idx-1] !== '\\') break;
+		else if(code === QUOTE || code === APOSTROPHE) {
+			// Only a backslash right before a quote escapes it.
+			let end = idx;
+			do end = input.indexOf(code === QUOTE ? '"' : "'", end + 1);
+			while(end !== -1 && input.charCodeAt(end - 1) === BACKSLASH);
+			if(end === -1) {
+				end = length;
+				const error = new FGDParseError('unterminated-string', `Unterminated string.`, {
+					file: name, input, span: [span_start, end], expected: input[span_start], actual: 'EOF'
+				});
+				if(!report) throw error;
+				report(error);
 			}
-			yield token("string");
-			idx++;
+			idx = end + 1;
+			yield {type: "string", span: [span_start + 1, end]};
+			continue;
 		}
-		else if(NAME_START.test(char)) {
-			while(NAME_PART.test(input[++idx]) && input[idx] !== undefined);
-			yield token("ident");
+		else if(is_name_start(code)) {
+			while(++idx < length && is_name_part(input.charCodeAt(idx)));
+			type = "ident";
 		}
-		else if((char >= '0' && char <= '9') || (char == '-' && NUMBER.test(char_next))) {
-			while(NUMBER.test(input[++idx]));
-			if(NAME_START.test(input[idx])) {
-				while(NAME_PART.test(input[++idx]) && input[idx] !== undefined);
-				yield token("ident");
-				continue;
+		else if(is_digit(code) || (code === MINUS && (is_digit(code_next) || code_next === DOT))) {
+			while(++idx < length && (is_digit(input.charCodeAt(idx)) || input.charCodeAt(idx) === DOT));
+			// A number running into a name, or into the end of the input, is a name ending one past the end.
+			if(idx >= length || is_name_start(input.charCodeAt(idx))) {
+				while(++idx < length && is_name_part(input.charCodeAt(idx)));
+				type = "ident";
+			} else {
+				type = "number";
 			}
-			yield token("number");
 		}
-		else if(char == '-') {
+		else if(code === MINUS) {
 			idx++;
-			yield token("symbol");
+			type = "symbol";
 		}
 		else {
-			throw `Unexpected character \`${char}\` at ${idx}.`;
+			const error = new FGDParseError('unexpected-character', `Unexpected character \`${input[idx]}\`.`, {
+				file: name, input, span: [idx, idx+1], actual: input[idx]
+			});
+			if(!report) throw error;
+			report(error);
+			idx++;
+			continue;
 		}
+		yield {type, span: [span_start, idx]};
 	}
 	
 	return null;
@@ -121,10 +137,37 @@ export class TokenStream {
 	#input: string;
 	#tokens: LookAhead<Token, null, null>;
 	#token: Token|null = null;
-	constructor(name: string, input: string) {
+	#diagnostics?: FGDDiagnostic[];
+	#comments: Token[] = [];
+	#partial: boolean;
+	constructor(name: string, input: string, diagnostics?: FGDDiagnostic[], start: number = 0, partial: boolean = false) {
 		this.#name = name;
 		this.#input = input;
-		this.#tokens = lookahead(tokenizer(input));
+		this.#diagnostics = diagnostics;
+		this.#partial = partial;
+		const report = diagnostics && ((error: FGDParseError) => diagnostics.push(error.diagnostic()));
+		this.#tokens = lookahead(this.#trivia(tokenizer(input, name, partial ? this.#report_partial(report) : report, start)));
+	}
+	
+	/// Moves comment tokens out of the token stream, into `#comments`.
+	/// In partial input, a token at the end may continue after it, so reaching the end throws instead.
+	*#trivia(tokens: IterableIterator<Token, null>): IterableIterator<Token, null> {
+		for(const token of tokens) {
+			if(this.#partial && token.span[1] >= this.#input.length) throw new FGDIncompleteInputError();
+			if(token.type === 'comment') this.#comments.push(token);
+			else yield token;
+		}
+		if(this.#partial) throw new FGDIncompleteInputError();
+		return null;
+	}
+	
+	/// Errors at the end of partial input, like unterminated strings, may go away once more input follows.
+	#report_partial(report?: (error: FGDParseError) => void): (error: FGDParseError) => void {
+		return error => {
+			if(error.span[1] >= this.#input.length) throw new FGDIncompleteInputError();
+			if(!report) throw error;
+			report(error);
+		};
 	}
 	
 	get name() {
@@ -149,7 +192,7 @@ export class TokenStream {
 		return this.#token;
 	}
 	current_str() {
-		if(!this.#token) throw `No current token.`;
+		if(!this.#token) throw this.error('unexpected-eof', `No current token.`, [0, 0]);
 		return this.span(this.#token);
 	}
 	
@@ -160,7 +203,7 @@ export class TokenStream {
 	}
 	next_or_throw() {
 		const token = this.#tokens.next();
-		if(token.done) throw `Expected token, but reached EOF.`;
+		if(token.done) throw this.error('unexpected-eof', `Expected token, but reached EOF.`, this.#eof_span(), 'token', 'EOF');
 		return this.#token = token.value;
 	}
 	
@@ -173,7 +216,7 @@ export class TokenStream {
 	}
 	behind(behind: number = 1) {
 		const token = this.#tokens.behind(behind);
-		if(!token) throw `Expected token behind, but reached EOF.`;
+		if(!token) throw this.error('unexpected-eof', `Expected token behind, but reached EOF.`, this.#eof_span());
 		return token;
 	}
 	
@@ -183,11 +226,72 @@ export class TokenStream {
 	
 	expect(type:TokenType, value?:string): Token {
 		const ahead = this.#tokens.ahead(1);
-		if(!ahead) throw `Expected ${type}-token, but reached EOF.`;
-		if(ahead.type !== type) throw `Expected ${type}-token, but got ${ahead.type}, at ${ahead.span[0]}.`;
-		if(value !== undefined && this.span(ahead) != value) throw `Expected ${type}-token containing "${value}", but got ${ahead.type} containing "${this.span(ahead)}", at ${ahead.span[0]}.`;
+		const expected = value === undefined ? type : `${type} "${value}"`;
+		if(!ahead) throw this.error('unexpected-eof', `Expected ${type}-token, but reached EOF.`, this.#eof_span(), expected, 'EOF');
+		if(ahead.type !== type) throw this.error('unexpected-token', `Expected ${type}-token, but got ${ahead.type}.`, ahead.span, expected, this.describe(ahead));
+		if(value !== undefined && this.span(ahead) != value) throw this.error('unexpected-token', `Expected ${type}-token containing "${value}", but got ${ahead.type} containing "${this.span(ahead)}".`, ahead.span, expected, this.describe(ahead));
 		return this.next_or_throw();
 	}
+	describe(token: Token): string {
+		return `${token.type} "${this.span(token)}"`;
+	}
+	error(code: FGDErrorCode, reason: string, span: [number, number], expected?: string, actual?: string): FGDParseError {
+		return new FGDParseError(code, reason, {file: this.#name, input: this.#input, span, expected, actual});
+	}
+	unexpected(expected?: string): FGDParseError {
+		const ahead = this.#tokens.ahead(1);
+		if(!ahead) return this.error('unexpected-eof', `Unexpected EOF.`, this.#eof_span(), expected, 'EOF');
+		return this.error('unexpected-token', `Unexpected ${ahead.type}: ${this.span(ahead)}`, ahead.span, expected, this.describe(ahead));
+	}
+	/// Records `error` as a diagnostic if this stream is recovering from errors, returns false if `error` should be rethrown.
+	recover(error: unknown): boolean {
+		if(!this.#diagnostics || !(error instanceof FGDParseError)) return false;
+		this.#diagnostics.push(error.diagnostic());
+		return true;
+	}
+	/// Collects the comments belonging to the item spanning `start..end`, whose preceding sibling ended at `prev_end`.
+	/// Leading comments are the block of comment lines directly above the item (no blank line in between),
+	/// the trailing comment is the one on the same line right after the item.
+	comments(prev_end: number, start: number, end: number): FGDComments|undefined {
+		const next = this.#tokens.ahead(1)?.span[0] ?? this.#input.length;
+		const comments = this.#comments;
+		let lo = 0, hi = comments.length;
+		while(lo < hi) {
+			const mid = (lo + hi) >> 1;
+			if(comments[mid].span[0] < prev_end) lo = mid + 1;
+			else hi = mid;
+		}
+		
+		const leading: string[] = [];
+		let idx = lo;
+		while(idx < comments.length && comments[idx].span[1] <= start) idx++;
+		for(let i = idx - 1, boundary = start; i >= lo; i--) {
+			const comment = comments[i];
+			if(this.#input.slice(comment.span[1], boundary).split('\n').length > 2) break;
+			if(prev_end > 0 && !this.#input.slice(prev_end, comment.span[0]).includes('\n')) break;
+			leading.unshift(this.comment_text(comment));
+			boundary = comment.span[0];
+		}
+		
+		while(idx < comments.length && comments[idx].span[0] < end) idx++;
+		let trailing: string|undefined = undefined;
+		const comment = comments[idx];
+		if(comment && comment.span[0] < next && !this.#input.slice(end, comment.span[0]).includes('\n')) {
+			trailing = this.comment_text(comment);
+		}
+		
+		if(!leading.length && trailing === undefined) return undefined;
+		const result: FGDComments = {};
+		if(leading.length) result.leading = leading;
+		if(trailing !== undefined) result.trailing = trailing;
+		return result;
+	}
+	comment_text(token: Token): string {
+		return this.span(token).replace(/^\/\/+/, '').trim();
+	}
+	#eof_span(): [number, number] {
+		return [this.#input.length, this.#input.length];
+	}
 	expect_str(type:TokenType, value?:string): string {
 		return this.span(this.expect(type,value));
 	}
@@ -229,7 +333,7 @@ export class TokenStream {
 	}
 }
 
-export interface FGDNodeBase {span: [number, number], type: string}
+export interface FGDNodeBase {span: [number, number], type: string, file?: string}
 export interface FGDVersion extends FGDNodeBase {type: "Version", version:number}
 export interface FGDInclude extends FGDNodeBase {type: "Include", name:string}
 export interface FGDExclude extends FGDNodeBase {type: "Exclude", name:string}
@@ -239,6 +343,12 @@ export interface FGDVisGroupFilter extends FGDNodeBase {type: "VisGroupFilter",
 export interface FGDAutoVisGroup extends FGDNodeBase {type: "AutoVisGroup", name:string, groups:Record<string, Array<string>>}
 export interface FGDMaterialExclusion extends FGDNodeBase {type: "MaterialExclusion", list: Array<string>}
 export interface FGDParserMetadata extends FGDNodeBase {type: "__PARSER_METADATA__", meta: any}
+export interface FGDComments {
+	/// The `//` comment lines directly above the item, without their slashes.
+	leading?: string[],
+	/// The `//` comment on the same line, right after the item.
+	trailing?: string,
+}
 export interface FGDClassDecl extends FGDNodeBase {
 	type: "Class",
 	kind: string,
@@ -247,6 +357,7 @@ export interface FGDClassDecl extends FGDNodeBase {
 	impl: FGDClassBaseDecl[]
 	meta?: FGDClassMetaDecl[]
 	body: FGDPropDecl[]
+	comments?: FGDComments
 }
 export interface FGDPropDecl {
 	span: [number, number],
@@ -263,6 +374,8 @@ export interface FGDPropDecl {
 	metaprops?: Record<string, any>,
 	default: any,
 	choices?: any[],
+	comments?: FGDComments,
+	typed?: FGDTypedValue,
 }
 export type FGDClassBaseDecl = {name: string, args: string | Array<any> | Record<string, any>};
 export type FGDClassMetaDecl = {name: string, value: any};
@@ -316,6 +429,7 @@ export function parse_class_decl(tokens: TokenStream, node_kind: string): FGDCla
 			node.impl.push(base);
 			while( ! tokens.match('paren', ')')) {
 				var arg = parse_expression(tokens, 0);
+				if(arg === null && !tokens.ahead(1, 'symbol', ',')) throw tokens.unexpected('paren ")"');
 				args.push(arg);
 				if(tokens.match('symbol', ',')) {}
 			}
@@ -348,137 +462,168 @@ export function parse_class_decl(tokens: TokenStream, node_kind: string): FGDCla
 }
 
 export function parse_class_body(tokens: TokenStream, node: FGDClassDecl) {
+	let prev_end = tokens.span_end;
 	while( ! tokens.match('bracket', ']')) {
-		let span_start = tokens.ahead()?.span[0] || 0;
-		let is_input = tokens.match('ident', 'input');
-		let is_output = !is_input && tokens.match('ident', 'output');
-		
-		let decl: FGDPropDecl = {
-			span: [span_start, span_start],
-			kind: (is_input ? 'input' : is_output ? 'output' : 'prop'),
-			name: tokens.expect_str('ident'),
-			class: 'void',
-			title: '',
-			default: null,
-			description: ''
-		}; node.body.push(decl);
-		//console.log("Parsing decl: ", decl);
-		
-		if(decl.kind === 'prop' && (/^On[a-zA-Z].*$/).test(decl.name)) {
-			decl.kind = 'output';
-		}
-		
-		if(tokens.match('paren', '(')) {
-			parse_prop_class(tokens, decl);
-		}
-		
-		if(tokens.match('bracket', '[')) {
-			let metaprops: Record<string, any> = {};
-			let metacount = 0;
-			while( ! tokens.match('bracket', ']')) {
-				let pnot = tokens.match('symbol', '!');
-				let pkey = tokens.expect_str('ident');
-				if(pnot) pkey = '!'+pkey;
-				let pval = undefined;
-				if(tokens.match('symbol', '=')) {
-					pval = tokens.expect_str('string');
-				} else {
-					pval = true;
-				}
-				if(pkey === 'report') {
-					decl.report = (pval as any) || true;
-				} else if(pkey === 'readonly') {
-					decl.readonly = (pval as any) || true;
-				} else if(pkey === 'important') {
-					decl.important = (pval as any) || true;
-				} else if(pkey === 'group' && pval) {
-					decl.group = pval.toString();
-				} else {
-					metaprops[pkey] = pval;
-					metacount++;
+		let body_length = node.body.length;
+		try {
+			const decl = parse_prop_decl(tokens, node);
+			const comments = tokens.comments(prev_end, decl.span[0], decl.span[1]);
+			if(comments) decl.comments = comments;
+			prev_end = decl.span[1];
+		} catch (error) {
+			if(!tokens.recover(error)) throw error;
+			node.body.length = body_length;
+			// Resynchronise at the next `]`, or at the next top-level declaration.
+			while(tokens.more() && !tokens.ahead(1, 'symbol', '@')) {
+				if(tokens.match('bracket', ']')) {
+					if(!tokens.ahead() || tokens.ahead(1, 'symbol', '@')) return;
+					break;
 				}
-				if(tokens.match('symbol', ',')) {} // TODO: Might be wrong
+				tokens.next();
 			}
-			if(metacount) {
-				decl.metaprops = metaprops;
-			}
-		}
-		
-		if(decl.class === 'void' && tokens.match('paren', '(')) {
-			parse_prop_class(tokens, decl);
+			if(!tokens.ahead() || tokens.ahead(1, 'symbol', '@')) return;
 		}
-		
-		if(tokens.match('brace', '{')) {
-			let record: Record<string, any> = parse_record(tokens);
-			if(!decl.metaprops)
-				decl.metaprops = record;
-			else {
-				decl.metaprops = Object.assign(decl.metaprops, record);
+	}
+}
+
+export function parse_prop_decl(tokens: TokenStream, node: FGDClassDecl): FGDPropDecl {
+	let span_start = tokens.ahead()?.span[0] || 0;
+	let is_input = tokens.match('ident', 'input');
+	let is_output = !is_input && tokens.match('ident', 'output');
+	
+	let decl: FGDPropDecl = {
+		span: [span_start, span_start],
+		kind: (is_input ? 'input' : is_output ? 'output' : 'prop'),
+		name: tokens.expect_str('ident'),
+		class: 'void',
+		title: '',
+		default: null,
+		description: ''
+	}; node.body.push(decl);
+	//console.log("Parsing decl: ", decl);
+	
+	if(decl.kind === 'prop' && (/^On[a-zA-Z].*$/).test(decl.name)) {
+		decl.kind = 'output';
+	}
+	
+	if(tokens.match('paren', '(')) {
+		parse_prop_class(tokens, decl);
+	}
+	
+	if(tokens.match('bracket', '[')) {
+		let metaprops: Record<string, any> = {};
+		let metacount = 0;
+		while( ! tokens.match('bracket', ']')) {
+			let pnot = tokens.match('symbol', '!');
+			let pkey = tokens.expect_str('ident');
+			if(pnot) pkey = '!'+pkey;
+			let pval = undefined;
+			if(tokens.match('symbol', '=')) {
+				pval = tokens.expect_str('string');
+			} else {
+				pval = true;
 			}
+			if(pkey === 'report') {
+				decl.report = (pval as any) || true;
+			} else if(pkey === 'readonly') {
+				decl.readonly = (pval as any) || true;
+			} else if(pkey === 'important') {
+				decl.important = (pval as any) || true;
+			} else if(pkey === 'group' && pval) {
+				decl.group = pval.toString();
+			} else {
+				metaprops[pkey] = pval;
+				metacount++;
+			}
+			if(tokens.match('symbol', ',')) {} // TODO: Might be wrong
 		}
-		
-		if(tokens.ahead(2, 'string') && tokens.match('symbol', ':')) {
-			decl.title = tokens.literal();
-		}
-		
-		if(tokens.match('symbol', ':') && !tokens.ahead(1, 'symbol', ':')) {
-			decl.default = parse_expression(tokens);
-		}
-		
-		if(tokens.match('symbol', ':')) {
-			decl.description = tokens.literal();
+		if(metacount) {
+			decl.metaprops = metaprops;
 		}
-		
-		if(decl.title && decl.description === ''
-			&& (
-				(decl.title.length >= 80)
-				|| (decl.title.length > 48)
-				|| (decl.title.length > 32 && decl.title.endsWith('.'))
-				|| ((decl.title.match(/\b\w/g) || [])?.length >= 3 && decl.title.endsWith('.'))
-				|| ((decl.title.match(/\b\w/g) || [])?.length >= 5 && decl.title.length > 8)
-			)) {
-			decl.description = decl.title;
-			decl.title = '';
-		} else if(decl.title && decl.title.endsWith('.')) {
-			decl.title = decl.title.slice(0, -1);
+	}
+	
+	if(decl.class === 'void' && tokens.match('paren', '(')) {
+		parse_prop_class(tokens, decl);
+	}
+	
+	if(tokens.match('brace', '{')) {
+		let record: Record<string, any> = parse_record(tokens);
+		if(!decl.metaprops)
+			decl.metaprops = record;
+		else {
+			decl.metaprops = Object.assign(decl.metaprops, record);
 		}
-		
-		if(tokens.match('symbol', '=')) {
-			if(decl.class === 'integer' || decl.class === 'flags' || decl.class === 'choices' || decl.class === 'tag_list') {
-				tokens.expect('bracket', '[');
-				decl.choices = [];
-				while( ! tokens.match('bracket', ']')) {
-					let cident = tokens.span(tokens.next_or_throw());
-					tokens.expect('symbol', ':');
-					let cname = tokens.span(tokens.next_or_throw());
-					let choice = {
-						id: cident,
-						name: cname,
-					} as any;
-					let cdflt = null;
+	}
+	
+	if(tokens.ahead(2, 'string') && tokens.match('symbol', ':')) {
+		decl.title = tokens.literal();
+	}
+	
+	if(tokens.match('symbol', ':') && !tokens.ahead(1, 'symbol', ':')) {
+		decl.default = parse_expression(tokens);
+	}
+	
+	if(tokens.match('symbol', ':')) {
+		decl.description = tokens.literal();
+	}
+	
+	if(decl.title && decl.description === '' && looks_like_description(decl.title)) {
+		decl.description = decl.title;
+		decl.title = '';
+	} else if(decl.title && decl.title.endsWith('.')) {
+		decl.title = decl.title.slice(0, -1);
+	}
+	
+	if(tokens.match('symbol', '=')) {
+		if(decl.class === 'integer' || decl.class === 'flags' || decl.class === 'choices' || decl.class === 'tag_list') {
+			tokens.expect('bracket', '[');
+			decl.choices = [];
+			let prev_end = tokens.span_end;
+			while( ! tokens.match('bracket', ']')) {
+				let cident = tokens.span(tokens.next_or_throw());
+				let cstart = tokens.span_start;
+				tokens.expect('symbol', ':');
+				let cname = tokens.span(tokens.next_or_throw());
+				let choice = {
+					id: cident,
+					name: cname,
+				} as any;
+				let cdflt = null;
+				if(tokens.match('symbol', ':')) {
+					cdflt = tokens.span(tokens.next_or_throw());
+					if(decl.class === 'flags') {
+						if(cdflt === '0')cdflt = false;
+						if(cdflt === '1')cdflt = true;
+					}
+					choice.default = cdflt;
+					
 					if(tokens.match('symbol', ':')) {
-						cdflt = tokens.span(tokens.next_or_throw());
-						if(decl.class === 'flags') {
-							if(cdflt === '0')cdflt = false;
-							if(cdflt === '1')cdflt = true;
-						}
-						choice.default = cdflt;
-						
-						if(tokens.match('symbol', ':')) {
-							let cdesc = tokens.span(tokens.next_or_throw());
-							choice.description = cdesc;
-						}
+						let cdesc = tokens.span(tokens.next_or_throw());
+						choice.description = cdesc;
 					}
-					decl.choices.push(choice);
 				}
-			} else {
-				debugger;
+				let comments = tokens.comments(prev_end, cstart, tokens.span_end);
+				if(comments) choice.comments = comments;
+				prev_end = tokens.span_end;
+				decl.choices.push(choice);
 			}
+		} else {
+			debugger;
 		}
-		
-		decl.span[1] = tokens.current()?.span[1] || decl.span[0];
-		//console.log("Finished decl: ", decl);
 	}
+	
+	decl.span[1] = tokens.current()?.span[1] || decl.span[0];
+	//console.log("Finished decl: ", decl);
+	return decl;
+}
+
+/// Whether a lone title string is really a description (many FGDs only give `name(type) : "description"`).
+export function looks_like_description(title: string): boolean {
+	return (title.length >= 80)
+		|| (title.length > 48)
+		|| (title.length > 32 && title.endsWith('.'))
+		|| ((title.match(/\b\w/g) || [])?.length >= 3 && title.endsWith('.'))
+		|| ((title.match(/\b\w/g) || [])?.length >= 5 && title.length > 8);
 }
 
 export function parse_prop_class(tokens: TokenStream, decl: FGDPropDecl) {
@@ -551,7 +696,7 @@ export function parse_operator(tokens: TokenStream, initial?: string) {
 		if(tokens.match('symbol')) {
 			initial = tokens.current_str();
 		} else {
-			throw `Expected symbol`;
+			throw tokens.unexpected('symbol');
 		}
 	}
 	switch(initial) {
@@ -566,6 +711,7 @@ export function parse_operator(tokens: TokenStream, initial?: string) {
 		case '!': return tokens.match('symbol', '=') ? '!=' : initial;
 		case '&': return tokens.match('symbol', '&') ? '&&' : initial;
 		case '|': return tokens.match('symbol', '|') ? '||' : initial;
+		case '.': return tokens.match('symbol', '.') ? '..' : initial;
 		default: return initial;
 	}
 }
@@ -621,7 +767,7 @@ export function parse_expression_unary(tokens: TokenStream): string|FGDTBExpr|nu
 		let deflt = undefined;
 		while(!tokens.match('switch', '}}')) {
 			let lhs = parse_expression(tokens);
-			tokens.match('symbol', ',');
+			if(!tokens.match('symbol', ',') && lhs===null) throw tokens.unexpected('switch "}}"');
 			if(lhs===null) continue;
 			if(typeof lhs === 'string' && !deflt) {
 				deflt = lhs;
@@ -643,7 +789,10 @@ export function parse_expression_unary(tokens: TokenStream): string|FGDTBExpr|nu
 		while(!tokens.match('brace', '}')) {
 			let span = tokens.current()?.span || [0,0];
 			let lhs = parse_expression(tokens);
-			if(lhs===null) continue;
+			if(lhs===null) {
+				if(tokens.match('symbol', ',')) continue;
+				throw tokens.unexpected('brace "}"');
+			}
 			tokens.expect('symbol', ':');
 			let rhs = parse_expression(tokens) || [];
 			tokens.match('symbol', ',');
@@ -727,178 +876,236 @@ export function parse_array(tokens: TokenStream) {
 	return array;
 }
 
-export function* parse(name: string, input: string): IterableIterator<FGDNode> {
-	var tokens = new TokenStream(name, input);
-	var classes: Record<string, Array<string>> = {};
-	var class_tags: Array<string> = [];
-	var property_classes: Array<string> = [];
-	var property_groups: Array<string> = [];
-	let span_start = 0;
+export interface FGDParseOptions {
+	/// If given, the parser recovers from errors and records them here instead of throwing.
+	/// Recovery resumes at the next `@` declaration, or at the next `]` inside a class body.
+	diagnostics?: FGDDiagnostic[],
+	/// Parses from this offset instead of from the start of `input`, as if a declaration ended there (see incremental.ts).
+	/// It must lie between two top-level declarations.
+	start?: number,
+	/// `input` is only the beginning of the text, more follows (see stream.ts).
+	/// Instead of reaching the end of `input`, parsing throws `FGDIncompleteInputError`, so every node it yields is final.
+	partial?: boolean,
+}
+
+export function* parse(name: string, input: string, options: FGDParseOptions = {}): IterableIterator<FGDNode> {
+	var tokens = new TokenStream(name, input, options.diagnostics, options.start, options.partial);
+	var metadata = new FGDMetadataCollector();
+	let span_start = options.start ?? 0;
+	
+	let prev_end = span_start;
 	
 	loop:while(tokens.more()) {
 		
 		if(tokens.match('symbol', '@')) {
 			span_start = tokens.current()?.span[0] || 0;
-			let node_type = tokens.expect_str('ident');
-			let node_type_i = node_type.toLowerCase();
-			
-			if(node_type_i.endsWith('class')
-				|| node_type_i.endsWith('event')
-				|| node_type_i.endsWith('data')
-				|| node_type_i === 'struct'
-			) {
-				// `node_type` becomes `node_kind` here!
-				let class_decl = parse_class_decl(tokens, node_type);
-				
-				if(!classes[node_type]) classes[node_type] = [];
-				if(!classes[node_type].includes(class_decl.name))
-					classes[node_type].push(class_decl.name);
-				
-				class_decl.span[1] = tokens.current()?.span[1] || span_start;
-				class_decl.impl.forEach(({name, args}) => {
-					if(name === 'tags') {
-						if(typeof args === 'string') {
-							if(name === 'tags' && !class_tags.includes(args as string)) {
-								class_tags.push(args as string);
-							}
-						} else if(Array.isArray(args)) {
-							args.forEach(tag => {
-								if(name === 'tags' && !class_tags.includes(tag)) {
-									class_tags.push(tag);
-								}
-							})
-						} else {
-							debugger
-						}
-					}
-				});
-				class_decl.body.forEach((decl) => {
-					if(!property_classes.includes(decl.class)) {
-						property_classes.push(decl.class);
-					}
-					if(decl.group && !property_groups.includes(decl.group)) {
-						property_groups.push(decl.group);
-					}
-				});
-				
-				yield class_decl;
+			let node: FGDNode;
+			try {
+				node = parse_declaration(tokens, span_start);
+			} catch (error) {
+				if(!tokens.recover(error)) throw error;
+				while(tokens.more() && !tokens.ahead(1, 'symbol', '@')) tokens.next();
 				continue loop;
 			}
-			
-			switch (node_type_i) {
-				case 'version': {
-					tokens.expect('paren', '(');
-					let v = tokens.expect_str('number');
-					tokens.expect('paren', ')');
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type: 'Version', version: Number(v)
-					};
-				} continue loop;
-				case 'include': {
-					let name = tokens.expect_str('string');
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type:'Include', name
-					};
-				} continue loop;
-				case 'exclude': {
-					let name = tokens.expect_str('ident');
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type:'Exclude', name
-					};
-				} continue loop;
-				case 'mapsize': {
-					tokens.expect('paren', '(');
-					let x = tokens.expect_str('number');
-					tokens.expect('symbol', ',');
-					let y = tokens.expect_str('number');
-					tokens.expect('paren', ')');
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type: 'MapSize', x, y
-					};
-				} continue loop;
-				case 'materialexclusion': {
-					var list: Array<string> = [];
-					tokens.expect('bracket', '[');
-					while(tokens.match('string')) {
-						list.push(tokens.current_str());
-					}
-					tokens.expect('bracket', ']');
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type: 'MaterialExclusion', list
-					};
-				} continue loop;
-				case 'autovisgroup': {
-					var groups: Record<string, Array<string>> = {};
-					tokens.expect('symbol', '=');
-					var name = tokens.expect_str('string');
-					tokens.expect('bracket', '[');
-					while(!tokens.match('bracket', ']')) {
-						var group_name = tokens.expect_str('string');
-						var group_list: Array<string> = [];
-						tokens.expect('bracket', '[');
-						while(!tokens.match('bracket', ']')) {
-							var group_item = tokens.expect_str('string');
-							group_list.push(group_item);
-							tokens.match('symbol', ',');
-						}
-						groups[group_name] = group_list;
-					}
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type: 'AutoVisGroup', name, groups
-					};
-				} continue loop;
-				case 'entitygroup': {
-					let name = tokens.expect_str('string');
-					let meta = undefined;
-					if(tokens.match('brace', '{')) {
-						meta = parse_record(tokens);
-					}
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type:'EntityGroup', name, meta
-					};
-				} continue loop;
-				case 'visgroupfilter': {
-					tokens.expect('brace', '{');
-					let args: Record<string, any> = {};
-					while( ! tokens.match('brace', '}')) {
-						let key = tokens.expect_str('ident');
-						tokens.expect('symbol', '=');
-						let val = tokens.expect_str('string');
-						args[key] = val;
-					}
-					yield {
-						span: [span_start,tokens.current()?.span[1] || span_start],
-						type: 'VisGroupFilter',
-						args: args
-					};
-				} continue loop;
-				default: throw `Unexpected FGDNode ${node_type} at ${span_start}.`;
+			if(node.type === 'Class') {
+				const comments = tokens.comments(prev_end, node.span[0], node.span[1]);
+				if(comments) node.comments = comments;
+				metadata.add(node);
 			}
+			prev_end = node.span[1];
+			yield node;
+			continue loop;
 		}
 		
 		//console.log(`${token.span[0]}..${token.span[1]} \t${token.type}\t${tokens.span(token)}`);
 		const token = tokens.next().value;
 		if(!token) break;
-		throw `Unexpected ${token.type} at ${token.span[0]}..${token.span[1]}: ${tokens.span(token)}`;
+		const error = tokens.error('unexpected-token', `Unexpected ${token.type}: ${tokens.span(token)}`, token.span, 'symbol "@"', tokens.describe(token));
+		if(!tokens.recover(error)) throw error;
+		while(tokens.more() && !tokens.ahead(1, 'symbol', '@')) tokens.next();
 	}
 	
 	var span_end = tokens.current()?.span[1] || span_start;
-	yield {
-		span: [0,span_end],
-		type: "__PARSER_METADATA__",
-		meta: {
-			classes: Object.values(classes).map(a => a.sort()),
-			class_tags: class_tags.sort(),
-			property_classes: property_classes.sort()
+	yield metadata.node(span_end);
+}
+
+/// Parses one top-level declaration, after its `@` has been consumed.
+export function parse_declaration(tokens: TokenStream, span_start: number): FGDNode {
+	let node_type = tokens.expect_str('ident');
+	let node_type_i = node_type.toLowerCase();
+	
+	if(node_type_i.endsWith('class')
+		|| node_type_i.endsWith('event')
+		|| node_type_i.endsWith('data')
+		|| node_type_i === 'struct'
+	) {
+		// `node_type` becomes `node_kind` here!
+		let class_decl = parse_class_decl(tokens, node_type);
+		class_decl.span[1] = tokens.current()?.span[1] || span_start;
+		return class_decl;
+	}
+	
+	switch (node_type_i) {
+		case 'version': {
+			tokens.expect('paren', '(');
+			let v = tokens.expect_str('number');
+			tokens.expect('paren', ')');
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type: 'Version', version: Number(v)
+			};
 		}
-	};
+		case 'include': {
+			let name = tokens.expect_str('string');
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type:'Include', name
+			};
+		}
+		case 'exclude': {
+			let name = tokens.expect_str('ident');
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type:'Exclude', name
+			};
+		}
+		case 'mapsize': {
+			tokens.expect('paren', '(');
+			let x = tokens.expect_str('number');
+			tokens.expect('symbol', ',');
+			let y = tokens.expect_str('number');
+			tokens.expect('paren', ')');
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type: 'MapSize', x, y
+			};
+		}
+		case 'materialexclusion': {
+			var list: Array<string> = [];
+			tokens.expect('bracket', '[');
+			while(tokens.match('string')) {
+				list.push(tokens.current_str());
+			}
+			tokens.expect('bracket', ']');
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type: 'MaterialExclusion', list
+			};
+		}
+		case 'autovisgroup': {
+			var groups: Record<string, Array<string>> = {};
+			tokens.expect('symbol', '=');
+			var name = tokens.expect_str('string');
+			tokens.expect('bracket', '[');
+			while(!tokens.match('bracket', ']')) {
+				var group_name = tokens.expect_str('string');
+				var group_list: Array<string> = [];
+				tokens.expect('bracket', '[');
+				while(!tokens.match('bracket', ']')) {
+					var group_item = tokens.expect_str('string');
+					group_list.push(group_item);
+					tokens.match('symbol', ',');
+				}
+				groups[group_name] = group_list;
+			}
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type: 'AutoVisGroup', name, groups
+			};
+		}
+		case 'entitygroup': {
+			let name = tokens.expect_str('string');
+			let meta = undefined;
+			if(tokens.match('brace', '{')) {
+				meta = parse_record(tokens);
+			}
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type:'EntityGroup', name, meta
+			};
+		}
+		case 'visgroupfilter': {
+			tokens.expect('brace', '{');
+			let args: Record<string, any> = {};
+			while( ! tokens.match('brace', '}')) {
+				let key = tokens.expect_str('ident');
+				tokens.expect('symbol', '=');
+				let val = tokens.expect_str('string');
+				args[key] = val;
+			}
+			return {
+				span: [span_start,tokens.current()?.span[1] || span_start],
+				type: 'VisGroupFilter',
+				args: args
+			};
+		}
+		default: throw tokens.error('unknown-declaration', `Unexpected FGDNode ${node_type}.`, [span_start, tokens.span_end], undefined, node_type);
+	}
+}
+
+/// Parses `input` in recovering mode, returning every node that could be parsed next to the errors that were skipped.
+export function parse_recover(name: string, input: string): {nodes: FGDNode[], diagnostics: FGDDiagnostic[]} {
+	const diagnostics: FGDDiagnostic[] = [];
+	const nodes = [...parse(name, input, {diagnostics})];
+	return {nodes, diagnostics};
+}
+
+/// Accumulates the `__PARSER_METADATA__` node from the class declarations of one or more files.
+export class FGDMetadataCollector {
+	#classes: Record<string, Array<string>> = {};
+	#class_tags: Array<string> = [];
+	#property_classes: Array<string> = [];
+	#property_groups: Array<string> = [];
+	
+	add(class_decl: FGDClassDecl) {
+		const classes = this.#classes;
+		const class_tags = this.#class_tags;
+		const property_classes = this.#property_classes;
+		const property_groups = this.#property_groups;
+		const node_type = class_decl.kind;
+		
+		if(!classes[node_type]) classes[node_type] = [];
+		if(!classes[node_type].includes(class_decl.name))
+			classes[node_type].push(class_decl.name);
+		
+		class_decl.impl.forEach(({name, args}) => {
+			if(name === 'tags') {
+				if(typeof args === 'string') {
+					if(name === 'tags' && !class_tags.includes(args as string)) {
+						class_tags.push(args as string);
+					}
+				} else if(Array.isArray(args)) {
+					args.forEach(tag => {
+						if(name === 'tags' && !class_tags.includes(tag)) {
+							class_tags.push(tag);
+						}
+					})
+				} else {
+					debugger
+				}
+			}
+		});
+		class_decl.body.forEach((decl) => {
+			if(!property_classes.includes(decl.class)) {
+				property_classes.push(decl.class);
+			}
+			if(decl.group && !property_groups.includes(decl.group)) {
+				property_groups.push(decl.group);
+			}
+		});
+	}
+	
+	node(span_end: number): FGDParserMetadata {
+		return {
+			span: [0,span_end],
+			type: "__PARSER_METADATA__",
+			meta: {
+				classes: Object.values(this.#classes).map(a => a.sort()),
+				class_tags: this.#class_tags.sort(),
+				property_classes: this.#property_classes.sort()
+			}
+		};
+	}
 }
 
 export default {};
@@ -0,0 +1,26 @@
+import {parse_with_includes, fs_loader} from './include.js';
+import {diff_fgd, format_diff} from './diff.js';
+import {FGDParseError} from './errors.js';
+
+// Usage: node fgddiff.js [--json] <old.fgd> <new.fgd>
+//   Prints the semantic changes between two FGDs (including the files they include), as text or as JSON.
+//   Exits with 1 if there are changes, like diff.
+
+const args = process.argv.slice(2);
+const json = args.includes('--json');
+const files = args.filter(arg => !arg.startsWith('--'));
+
+if(files.length !== 2) {
+	console.error('Usage: node fgddiff.js [--json] <old.fgd> <new.fgd>');
+	process.exitCode = 2;
+} else {
+	try {
+		const loader = fs_loader();
+		const changes = diff_fgd(parse_with_includes(files[0], loader), parse_with_includes(files[1], loader));
+		process.stdout.write(json ? JSON.stringify(changes, null, '\t') + '\n' : format_diff(changes));
+		process.exitCode = changes.length ? 1 : 0;
+	} catch (error) {
+		console.error(error instanceof FGDParseError ? error.toString() : error);
+		process.exitCode = 2;
+	}
+}
@@ -0,0 +1,37 @@
+import {mkdirSync, writeFileSync} from 'fs';
+import {basename, dirname, join} from 'path';
+import {parse_with_includes, fs_loader} from './include.js';
+import {generate_docs} from './docs.js';
+import {FGDParseError} from './errors.js';
+
+// Usage: node fgddoc.js [--markdown] [--out <dir>] <file.fgd>
+//   Writes an entity reference for the FGD (and the files it includes) to <dir>, `docs` by default.
+
+const args = process.argv.slice(2);
+let markdown = false;
+let out = 'docs';
+const files: string[] = [];
+for(let idx = 0; idx < args.length; idx++) {
+	if(args[idx] === '--markdown') markdown = true;
+	else if(args[idx] === '--out') out = args[++idx];
+	else files.push(args[idx]);
+}
+
+if(files.length !== 1) {
+	console.error('Usage: node fgddoc.js [--markdown] [--out <dir>] <file.fgd>');
+	process.exitCode = 2;
+} else {
+	try {
+		const nodes = parse_with_includes(files[0], fs_loader());
+		const pages = generate_docs(nodes, {format: markdown ? 'markdown' : 'html', title: basename(files[0])});
+		for(const [path, content] of pages) {
+			const file = join(out, path);
+			mkdirSync(dirname(file), {recursive: true});
+			writeFileSync(file, content);
+		}
+		console.log(`Wrote ${pages.size} pages to "${out}".`);
+	} catch (error) {
+		console.error(error instanceof FGDParseError ? error.toString() : error);
+		process.exitCode = 2;
+	}
+}
@@ -0,0 +1,36 @@
+import {readFileSync, writeFileSync} from 'fs';
+import {format} from './format.js';
+import {FGDParseError} from './errors.js';
+
+// Usage: node fgdfmt.js [--check | --write] <file.fgd>...
+//   --check  lists the files that are not formatted, and exits with 1 if there are any.
+//   --write  formats the files in place.
+//   Otherwise the formatted files are printed to stdout.
+
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const write = args.includes('--write');
+const files = args.filter(arg => !arg.startsWith('--'));
+
+let unformatted = 0;
+let failed = 0;
+for (const file of files) {
+	try {
+		const input = readFileSync(file, 'utf-8');
+		const output = format(input, file);
+		if(check) {
+			if(output !== input) {
+				console.log(file);
+				unformatted++;
+			}
+		} else if(write) {
+			if(output !== input) writeFileSync(file, output);
+		} else {
+			process.stdout.write(output);
+		}
+	} catch (error) {
+		console.error(error instanceof FGDParseError ? error.toString() : error);
+		failed++;
+	}
+}
+process.exitCode = failed ? 2 : unformatted ? 1 : 0;
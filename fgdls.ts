@@ -0,0 +1,6 @@
+import {listen} from './lsp.js';
+
+// Usage: node fgdls.js [--stdio]
+//   Runs the FGD language server, talking LSP over stdin and stdout.
+
+listen(process.stdin, process.stdout).then(code => process.exit(code));
@@ -0,0 +1,217 @@
+import type {Token} from './fgd.ts';
+import {tokenizer} from './fgd.js';
+
+// NOTE: The formatter only ever changes the whitespace between tokens, it never adds, removes or reorders tokens.
+
+type FrameKind = "header" | "body" | "choices" | "list" | "block" | "meta" | "inline";
+
+interface Frame {
+	kind: FrameKind,
+	/// Indentation level of the lines inside this frame.
+	indent: number,
+	/// The token that closes this frame.
+	close: string,
+}
+
+type Break = "none" | "space" | "line";
+
+const CLASS_DECL = (type: string) => type.endsWith('class') || type.endsWith('event') || type.endsWith('data') || type === 'struct';
+const VALUE_END = new Set([')', ']', '}', '}}']);
+const CLOSE: {[open: string]: string} = {'(': ')', '[': ']', '{': '}', '{{': '}}'};
+
+function token_range(token: Token, input: string): [number, number] {
+	if(token.type !== 'string') return token.span;
+	const closed = token.span[1] < input.length;
+	return [token.span[0] - 1, token.span[1] + (closed ? 1 : 0)];
+}
+
+/// Whether writing `a` and `b` without whitespace in between would tokenize differently.
+function must_separate(a: string, b: string): boolean {
+	try {
+		const tokens = [...tokenizer(a + b)];
+		return tokens.length !== 2 || token_range(tokens[0], a + b)[1] !== a.length;
+	} catch {
+		return true;
+	}
+}
+
+/// Rewrites an FGD file in the canonical layout: one declaration per line group, class bodies and lists indented by tabs,
+/// one property and one choice per line, ` : ` and ` = ` between the parts of a declaration, and `+` concatenations wrapped.
+/// Comments and (single) blank lines between items are kept.
+export function format(input: string, name: string = ''): string {
+	const frames: Frame[] = [{kind: 'header', indent: 0, close: ''}];
+	let out = '';
+	let prev: Token|null = null;
+	let prev_end = 0;
+	let prev_text = '';
+	let sig: Token|null = null;
+	let sig_text = '';
+	let decl = '';
+	let prop_first: Token|null = null;
+	let force_line = false;
+	
+	const emit = (brk: Break, indent: number, blank: boolean, text: string) => {
+		if(prev === null) {
+			out += text;
+			return;
+		}
+		if(brk === 'line') {
+			out += (blank ? '\n\n' : '\n') + '\t'.repeat(indent) + text;
+		} else if(brk === 'space') {
+			out += ' ' + text;
+		} else {
+			out += text;
+		}
+	};
+	
+	for(const token of tokenizer(input, name)) {
+		const range = token_range(token, input);
+		const text = input.slice(range[0], range[1]);
+		const gap = input.slice(prev_end, range[0]);
+		const newlines = gap.split('\n').length - 1;
+		let frame = frames[frames.length - 1];
+		
+		if(token.type === 'comment') {
+			const trailing = prev !== null && newlines === 0;
+			const inline = frame.kind === 'meta' || frame.kind === 'inline';
+			emit(trailing ? 'space' : 'line', frame.indent + (inline ? 1 : 0), newlines > 1, text);
+			force_line = true;
+			prev = token; prev_end = range[1]; prev_text = text;
+			continue;
+		}
+		
+		let brk: Break = 'space';
+		let indent = frame.indent;
+		let open: Frame|null = null;
+		const p = sig_text;
+		if(text === '@') {
+			frames.length = 1;
+			frame = frames[0];
+			brk = 'line';
+			indent = 0;
+			decl = '';
+		} else if(text === frame.close) {
+			frames.pop();
+			const parent = frames[frames.length - 1];
+			switch(frame.kind) {
+				case 'body': case 'choices': case 'list': case 'block':
+					brk = 'line';
+					indent = parent.indent;
+					break;
+				default:
+					brk = text === '}' || text === '}}' ? 'space' : 'none';
+					if(text === '}' && p === '{') brk = 'none';
+			}
+		} else switch(frame.kind) {
+			case 'header': {
+				if(text === '[' && CLASS_DECL(decl)) {
+					brk = 'line';
+					open = {kind: 'body', indent: frame.indent + 1, close: ']'};
+				} else if(text === '[' && (decl === 'materialexclusion' || decl === 'autovisgroup')) {
+					brk = 'line';
+					open = {kind: 'list', indent: frame.indent + 1, close: ']'};
+				} else if(text === '{' && decl === 'visgroupfilter') {
+					brk = 'line';
+					open = {kind: 'block', indent: frame.indent + 1, close: '}'};
+				} else {
+					brk = decl_spacing(p, text, sig, token, gap);
+				}
+				if(p === '@') decl = text.toLowerCase();
+				break;
+			}
+			case 'body': {
+				if(text === '[' && p === '=') {
+					brk = 'line';
+					open = {kind: 'choices', indent: frame.indent + 1, close: ']'};
+				} else if(token.type === 'ident' && starts_prop(sig, p, text, prop_first)) {
+					brk = 'line';
+					prop_first = token;
+				} else {
+					brk = decl_spacing(p, text, sig, token, gap);
+				}
+				break;
+			}
+			case 'choices': {
+				if(text !== ':' && p !== ':') brk = 'line';
+				else brk = decl_spacing(p, text, sig, token, gap);
+				break;
+			}
+			case 'list': {
+				if(text === ',') brk = 'none';
+				else {
+					brk = 'line';
+					if(text === '[') open = {kind: 'list', indent: frame.indent + 1, close: ']'};
+				}
+				break;
+			}
+			case 'block': {
+				if(token.type === 'ident' && (p === '{' || sig?.type === 'string' || sig?.type === 'ident' || sig?.type === 'number')) brk = 'line';
+				else brk = decl_spacing(p, text, sig, token, gap);
+				break;
+			}
+			case 'meta': {
+				if(p === '[' || text === ']' || p === '!') brk = 'none';
+				else if(text === ',') brk = 'none';
+				else if(text === '=' || p === '=' || p === ',') brk = 'space';
+				else if(p === '{' || text === '}') brk = 'space';
+				else brk = gap.length ? 'space' : 'none';
+				break;
+			}
+			case 'inline': {
+				if(p === '(' || p === '[' || text === ',') brk = 'none';
+				else if(p === ',' || p === '{' || p === '{{') brk = 'space';
+				else brk = gap.length ? 'space' : 'none';
+				break;
+			}
+		}
+		
+		// Wrap `+` string concatenations onto continuation lines.
+		if(p === '+' && token.type === 'string' && (frame.kind === 'header' || frame.kind === 'body' || frame.kind === 'choices')) {
+			brk = 'line';
+			indent = frame.indent + 1;
+		}
+		
+		if(!open && text in CLOSE) {
+			const meta = frame.kind !== 'inline' && (text === '{' || text === '[');
+			open = {kind: meta ? 'meta' : 'inline', indent: frame.indent, close: CLOSE[text]};
+		}
+		
+		// A token that has to follow a comment goes onto a continuation line.
+		if(force_line && brk !== 'line') {
+			brk = 'line';
+			indent = frame.indent + 1;
+		}
+		if(brk === 'none' && prev !== null && must_separate(prev_text, text)) {
+			brk = 'space';
+		}
+		
+		emit(brk, indent, brk === 'line' && newlines > 1, text);
+		if(open) frames.push(open);
+		force_line = false;
+		prev = token; prev_end = range[1]; prev_text = text;
+		sig = token; sig_text = text;
+	}
+	
+	return out.length ? out + '\n' : out;
+}
+
+function decl_spacing(p: string, text: string, sig: Token|null, token: Token, gap: string): Break {
+	if(p === '@' || p === '(' || p === '!' || text === ')' || text === ',') return 'none';
+	if(text === '(') return sig?.type === 'ident' ? 'none' : 'space';
+	if(text === ':' || text === '=' || p === ':' || p === '=' || p === ',' || text === '+' || p === '+') return 'space';
+	if(token.type === 'symbol' || sig?.type === 'symbol') return gap.length ? 'space' : 'none';
+	return 'space';
+}
+
+function starts_prop(sig: Token|null, p: string, text: string, prop_first: Token|null): boolean {
+	if(p === '[') return true;
+	if(sig === prop_first && (p === 'input' || p === 'output')) return false;
+	if(p === ')' && (text === 'readonly' || text === 'report')) return false;
+	if(sig?.type === 'string' || sig?.type === 'number' || sig?.type === 'ident') return true;
+	return VALUE_END.has(p);
+}
+
+/// Whether `input` is already in the canonical layout.
+export function is_formatted(input: string, name: string = ''): boolean {
+	return format(input, name) === input;
+}
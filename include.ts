@@ -0,0 +1,98 @@
+import {readFileSync, existsSync} from 'fs';
+import {dirname, join, posix, resolve} from 'path';
+import type {FGDNode} from './fgd.ts';
+import {parse, FGDMetadataCollector} from './fgd.js';
+import {FGDParseError} from './errors.js';
+
+/// Locates and reads the files named by `@include` directives.
+export interface FGDLoader {
+	/// Turns an include name into a file key, relative to the including file (if any).
+	resolve(name: string, from?: string): string;
+	/// Returns the contents of a resolved file, or `undefined` if it does not exist.
+	load(file: string): string|undefined;
+}
+
+export function fs_loader(): FGDLoader {
+	return {
+		resolve(name, from) {
+			// Windows accepts `/` as well, so includes written with `\` resolve everywhere.
+			name = name.replaceAll('\\', '/');
+			return from === undefined ? resolve(name) : join(dirname(from), name);
+		},
+		load(file) {
+			if(!existsSync(file)) return undefined;
+			return readFileSync(file, 'utf-8');
+		}
+	};
+}
+
+export function map_loader(files: Record<string, string>|Map<string, string>): FGDLoader {
+	const map = files instanceof Map ? files : new Map(Object.entries(files));
+	return {
+		resolve(name, from) {
+			name = name.replaceAll('\\', '/');
+			return posix.normalize(from === undefined ? name : posix.join(posix.dirname(from), name));
+		},
+		load(file) {
+			return map.get(file);
+		}
+	};
+}
+
+/// Parses `root` and every file it `@include`s into one node list.
+/// Included nodes directly follow the `Include` node that pulled them in, each file is only included once,
+/// and the per-file `__PARSER_METADATA__` nodes are replaced by a single one covering all files.
+export function parse_with_includes(root: string, loader: FGDLoader): FGDNode[] {
+	const nodes: FGDNode[] = [];
+	const metadata = new FGDMetadataCollector();
+	const included = new Set<string>();
+	const stack: string[] = [];
+	let span_end = 0;
+	
+	const visit = (file: string, input: string) => {
+		included.add(file);
+		stack.push(file);
+		for(const node of parse(file, input)) {
+			node.file = file;
+			if(node.type === '__PARSER_METADATA__') {
+				if(stack.length === 1) span_end = node.span[1];
+				continue;
+			}
+			nodes.push(node);
+			if(node.type === 'Class') {
+				metadata.add(node);
+			}
+			if(node.type === 'Include') {
+				const target = loader.resolve(node.name, file);
+				if(stack.includes(target)) {
+					throw new FGDParseError('include-cycle', `Include cycle: ${[...stack.slice(stack.indexOf(target)), target].join(' -> ')}.`, {
+						file, input, span: node.span, actual: target
+					});
+				}
+				if(included.has(target)) continue;
+				const source = loader.load(target);
+				if(source === undefined) {
+					throw new FGDParseError('include-missing', `Included file "${node.name}" not found (resolved to "${target}").`, {
+						file, input, span: node.span, actual: target
+					});
+				}
+				visit(target, source);
+			}
+		}
+		stack.pop();
+	};
+	
+	const file = loader.resolve(root);
+	const input = loader.load(file);
+	if(input === undefined) {
+		throw new FGDParseError('include-missing', `File "${root}" not found (resolved to "${file}").`, {
+			file, input: '', span: [0, 0], actual: file
+		});
+	}
+	visit(file, input);
+	
+	const meta = metadata.node(span_end);
+	meta.file = file;
+	nodes.push(meta);
+	return nodes;
+}
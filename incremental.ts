@@ -0,0 +1,149 @@
+import type {FGDNode, Token} from './fgd.ts';
+import type {FGDDiagnostic} from './errors.ts';
+import {parse, tokenizer, FGDMetadataCollector} from './fgd.js';
+
+// NOTE: A declaration's comments depend on the text around it: a comment on the line of its end is its trailing comment,
+//       and the comments above it are only leading comments up to the end of the previous declaration.
+//       So reparsing starts after the last declaration that ends on a line before the edit, and stops once the reparsed
+//       declarations line up with the old ones again, after the edit; from there on the token stream and the parser state are the same.
+//       The last kept declaration must also be followed by an `@` in front of the edit, as a `[` or `+` after it would continue it,
+//       and must have parsed without errors, as recovering from them looks further ahead.
+
+/// Replaces `deleted` characters at `offset` with `inserted`.
+export interface FGDTextEdit {
+	offset: number,
+	deleted: number,
+	inserted: string,
+}
+
+export interface FGDParseResult {
+	name: string,
+	input: string,
+	/// The parsed nodes, ending with the `__PARSER_METADATA__` node.
+	nodes: FGDNode[],
+	/// Present if the parser recovers from errors (see `FGDParseOptions.diagnostics`), absent if errors are thrown.
+	/// Sorted by position, as the tokenizer reports its errors ahead of the parser.
+	diagnostics?: FGDDiagnostic[],
+}
+
+/// Parses `input` into a result that `reparse` can update.
+export function parse_result(name: string, input: string, recover: boolean = false): FGDParseResult {
+	const diagnostics: FGDDiagnostic[]|undefined = recover ? [] : undefined;
+	const nodes = [...parse(name, input, {diagnostics})];
+	return diagnostics ? {name, input, nodes, diagnostics: by_position(diagnostics)} : {name, input, nodes};
+}
+
+function by_position(diagnostics: FGDDiagnostic[]): FGDDiagnostic[] {
+	return diagnostics.sort((a, b) => a.span[0] - b.span[0]);
+}
+
+/// Where tokenizing can resume after `node`, and the first token after it.
+/// String tokens end before their closing quote, and so does a node ending with one.
+function after_node(input: string, node: FGDNode): {resume: number, next?: Token} {
+	let last: Token|undefined;
+	for(const token of tokenizer(input, '', () => {}, node.span[0])) {
+		if(token.type === 'comment') continue;
+		if(token.span[1] > node.span[1]) return {resume: resume(node, last), next: token};
+		last = token;
+	}
+	return {resume: resume(node, last)};
+}
+
+/// Where parsing can resume after `node` (see `FGDParseOptions.start`).
+export function resume_offset(input: string, node: FGDNode): number {
+	return after_node(input, node).resume;
+}
+
+function resume(node: FGDNode, last: Token|undefined): number {
+	return last?.type === 'string' && last.span[1] === node.span[1] ? node.span[1] + 1 : node.span[1];
+}
+
+/// Returns a copy of `value` with every `span` moved by `delta`.
+export function shift_spans<T>(value: T, delta: number): T {
+	if(Array.isArray(value)) return value.map(item => shift_spans(item, delta)) as T;
+	if(typeof value !== 'object' || value === null) return value;
+	const copy: Record<string, unknown> = {};
+	for(const [key, item] of Object.entries(value)) {
+		copy[key] = key === 'span' && Array.isArray(item) && item.length === 2 && typeof item[0] === 'number'
+			? [item[0] + delta, item[1] + delta]
+			: shift_spans(item, delta);
+	}
+	return copy as T;
+}
+
+/// Applies `edit` to the input of `previous` and reparses only the top-level declarations it touches,
+/// moving the spans of the declarations after it. The result is the same as parsing the new input from scratch,
+/// except for the random names of classes without a name.
+/// Without `diagnostics` in `previous`, parse errors are thrown like `parse` does, with their positions in the new input.
+export function reparse(previous: FGDParseResult, edit: FGDTextEdit): FGDParseResult {
+	const {name, input} = previous;
+	if(edit.offset < 0 || edit.deleted < 0 || edit.offset + edit.deleted > input.length) {
+		throw new RangeError(`Edit ${edit.offset}+${edit.deleted} is outside of the input (${input.length} characters).`);
+	}
+	const text = input.slice(0, edit.offset) + edit.inserted + input.slice(edit.offset + edit.deleted);
+	const delta = edit.inserted.length - edit.deleted;
+	const old_end = edit.offset + edit.deleted;
+	const new_end = edit.offset + edit.inserted.length;
+	const decls = previous.nodes.filter(node => node.type !== '__PARSER_METADATA__');
+	const old_metadata = previous.nodes.find(node => node.type === '__PARSER_METADATA__');
+	
+	let kept = 0;
+	while(kept < decls.length && decls[kept].span[1] < edit.offset && input.slice(decls[kept].span[1], edit.offset).includes('\n')) kept++;
+	let start = 0;
+	for(; kept; kept--) {
+		// The last kept declaration must have been ended by the next `@`, before the edit, and without errors,
+		// or the edit may change where it ends.
+		const decl = decls[kept - 1];
+		const {resume, next} = after_node(input, decl);
+		const next_decl = decls[kept]?.span[0] ?? input.length;
+		if(!next || next.span[1] > edit.offset || input.slice(next.span[0], next.span[1]) !== '@') continue;
+		if(previous.diagnostics?.some(diagnostic => diagnostic.span[0] >= decl.span[0] && diagnostic.span[0] <= next_decl)) continue;
+		start = resume;
+		break;
+	}
+	
+	const nodes: FGDNode[] = decls.slice(0, kept);
+	const fresh: FGDDiagnostic[]|undefined = previous.diagnostics && [];
+	let candidate = kept;
+	while(candidate < decls.length && decls[candidate].span[0] < old_end) candidate++;
+	let resync: FGDNode|undefined;
+	let span_end = 0;
+	
+	for(const node of parse(name, text, {start, diagnostics: fresh})) {
+		if(node.type === '__PARSER_METADATA__') {
+			// Without any tokens after `start`, the last token is the one that ended the last kept declaration.
+			span_end = node.span[1] > start || !kept ? node.span[1] : decls[kept - 1].span[1];
+			break;
+		}
+		nodes.push(node);
+		if(node.span[0] < new_end) continue;
+		while(candidate < decls.length && decls[candidate].span[0] + delta < node.span[0]) candidate++;
+		const old = decls[candidate];
+		if(old && old.span[0] + delta === node.span[0] && old.span[1] + delta === node.span[1]) {
+			resync = old;
+			break;
+		}
+	}
+	
+	let diagnostics: FGDDiagnostic[]|undefined;
+	if(resync) {
+		// The old declaration is dropped for the one just parsed, everything after it only moves.
+		for(const node of decls.slice(candidate + 1)) nodes.push(shift_spans(node, delta));
+		span_end = (old_metadata?.span[1] ?? 0) + delta;
+		const boundary = resync.span[1];
+		diagnostics = previous.diagnostics && [
+			...previous.diagnostics.filter(diagnostic => diagnostic.span[0] < start),
+			...by_position(fresh!).filter(diagnostic => diagnostic.span[0] < boundary + delta),
+			...previous.diagnostics.filter(diagnostic => diagnostic.span[0] >= boundary).map(diagnostic => shift_spans(diagnostic, delta)),
+		];
+	} else {
+		diagnostics = previous.diagnostics && [...previous.diagnostics.filter(diagnostic => diagnostic.span[0] < start), ...by_position(fresh!)];
+	}
+	
+	const metadata = new FGDMetadataCollector();
+	for(const node of nodes) {
+		if(node.type === 'Class') metadata.add(node);
+	}
+	nodes.push(metadata.node(span_end));
+	return diagnostics ? {name, input: text, nodes, diagnostics} : {name, input: text, nodes};
+}
@@ -1,26 +1,177 @@
-import {readFileSync, createWriteStream, mkdirSync, existsSync} from 'fs';
-import {glob} from 'fs/promises';
+#!/usr/bin/env node
+import {readFileSync, writeFileSync, mkdirSync, existsSync, statSync, readdirSync, watch} from 'fs';
+import * as fs_promises from 'fs/promises';
+import {basename, dirname, extname, join, resolve} from 'path';
+import {parseArgs} from 'util';
 import {parse} from './fgd.js';
+import {FGDParseError, LineIndex} from './errors.js';
 
-function process(file: string) {
-	let name = file.slice(0, -4);
-	if(name.startsWith('fgd')) name = name.slice(4);
-	let json = `out/${name}.json`;
-	let fout = createWriteStream(json);
-	console.log(`Processing file "${file}" -> "${json}"`);
-	fout.write(`[${JSON.stringify({name}, null, '\t')}\n`);
-	for (const node of parse(name, readFileSync(file, 'utf-8'))) {
-		fout.write(`, ${JSON.stringify(node, ((k,v) => k === 'span' ? `${v[0]}:${v[1]}`: v), '\t')}\n`);
+// Usage: fgd2js [options] <file.fgd | glob>...
+//   -o, --out <path>     Writes to a file, or to <dir>/<name>.json if <path> is a directory or ends with a slash.
+//                        Without it, the JSON of every file is printed to stdout, one after the other.
+//   -f, --format <fmt>   `pretty` (default), `compact` or `ndjson` (one node per line).
+//   --spans <kind>       `offsets` (default, `start:end`) or `lines` (`line:column-line:column`).
+//   -w, --watch          Converts the files again whenever they change. Globs are only expanded once, at the start,
+//                        so files that match them later are not picked up.
+//   Exits with 1 if any file failed to convert, and with 2 on usage errors.
+
+const USAGE = 'Usage: fgd2js [-o <path>] [-f pretty|compact|ndjson] [--spans offsets|lines] [-w] <file.fgd | glob>...';
+const FORMATS = ['pretty', 'compact', 'ndjson'];
+const SPANS = ['offsets', 'lines'];
+
+type Format = "pretty" | "compact" | "ndjson";
+
+/// Errors point at `file`, and `name` is written in the leading `{name}` record.
+function convert(file: string, name: string, input: string, format: Format, spans: string): string {
+	const index = spans === 'lines' ? new LineIndex(input) : undefined;
+	const replacer = (key: string, value: any) => key === 'span' && Array.isArray(value)
+		? (index ? index.span_str(value as [number, number]) : `${value[0]}:${value[1]}`)
+		: value;
+	const items: unknown[] = [{name}, ...parse(file, input)];
+	switch(format) {
+		case 'ndjson': return items.map(item => JSON.stringify(item, replacer) + '\n').join('');
+		case 'compact': return JSON.stringify(items, replacer) + '\n';
+		default: return `[${items.map(item => JSON.stringify(item, replacer, '\t')).join('\n, ')}\n]\n`;
+	}
+}
+
+/// `fs/promises` only has `glob` since Node 22; older versions get this simpler one, which knows `*`, `?` and `**/`.
+async function* simple_glob(pattern: string): AsyncGenerator<string> {
+	pattern = pattern.replace(/\\/g, '/');
+	// The search starts in the directory before the first wildcard.
+	const wildcard = pattern.search(/[*?]/);
+	const root = pattern.slice(0, pattern.lastIndexOf('/', wildcard === -1 ? pattern.length : wildcard) + 1);
+	const source = pattern.slice(root.length).replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*\*\//g, '\0').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]').replace(/\0/g, '(?:.*/)?');
+	const regex = new RegExp(`^${source}$`);
+	if(!existsSync(root || '.')) return;
+	for(const file of readdirSync(root || '.', {recursive: true, encoding: 'utf-8'})) {
+		if(regex.test(file.replace(/\\/g, '/'))) yield join(root, file);
 	}
-	fout.write("]\n");
-	fout.close();
 }
 
-if(!existsSync('out')) mkdirSync('out');
-for await (const fgd of glob('fgd/*.fgd')) {
+const glob: (pattern: string) => AsyncIterable<string> = 'glob' in fs_promises ? fs_promises.glob : simple_glob;
+
+/// Expands the globs, reporting patterns that match nothing.
+async function expand(patterns: string[]): Promise<{files: string[], missing: number}> {
+	const files: string[] = [];
+	let missing = 0;
+	for(const pattern of patterns) {
+		if(existsSync(pattern)) {
+			files.push(pattern);
+			continue;
+		}
+		const before = files.length;
+		for await (const file of glob(pattern)) files.push(file);
+		if(files.length === before) {
+			console.error(`No files match "${pattern}".`);
+			missing++;
+		}
+	}
+	return {files: [...new Set(files)], missing};
+}
+
+function parse_args() {
 	try {
-		process(fgd);
+		return parseArgs({allowPositionals: true, options: {
+			out: {type: 'string', short: 'o'},
+			format: {type: 'string', short: 'f', default: 'pretty'},
+			spans: {type: 'string', default: 'offsets'},
+			watch: {type: 'boolean', short: 'w', default: false},
+			help: {type: 'boolean', short: 'h', default: false},
+		}});
 	} catch (error) {
-		console.error(error);
+		console.error(`${error instanceof Error ? error.message : error}\n${USAGE}`);
+		process.exit(2);
+	}
+}
+
+const {values, positionals} = parse_args();
+
+if(values.help) {
+	console.log(USAGE);
+	process.exit(0);
+}
+if(!positionals.length || !FORMATS.includes(values.format) || !SPANS.includes(values.spans)) {
+	console.error(USAGE);
+	process.exit(2);
+}
+
+const format = values.format as Format;
+const {files, missing} = await expand(positionals);
+const out = values.out;
+const to_dir = out !== undefined && (/[\\/]$/.test(out) || (existsSync(out) && statSync(out).isDirectory()));
+if(out !== undefined && !to_dir && files.length > 1) {
+	console.error(`"${out}" is not a directory, but ${files.length} files were given.`);
+	process.exit(2);
+}
+if(to_dir) {
+	// Every file is written to <dir>/<name>.json, so files with the same name would overwrite each other.
+	const sources = new Map<string, string>();
+	for(const file of files) {
+		const name = basename(file, extname(file));
+		const other = sources.get(name);
+		if(other !== undefined) {
+			console.error(`"${other}" and "${file}" would both be written to "${join(out!, name)}.*".`);
+			process.exit(2);
+		}
+		sources.set(name, file);
+	}
+	mkdirSync(out!, {recursive: true});
+}
+
+/// Converts one file, returning false if it failed.
+function run(file: string): boolean {
+	const name = basename(file, extname(file));
+	try {
+		const json = convert(file, name, readFileSync(file, 'utf-8'), format, values.spans);
+		if(out === undefined) {
+			process.stdout.write(json);
+		} else {
+			const target = to_dir ? join(out, `${name}.${format === 'ndjson' ? 'ndjson' : 'json'}`) : out;
+			writeFileSync(target, json);
+			console.error(`Converted "${file}" -> "${target}"`);
+		}
+		return true;
+	} catch (error) {
+		console.error(error instanceof FGDParseError ? error.toString() : error);
+		return false;
+	}
+}
+
+let failed = missing;
+for(const file of files) {
+	if(!run(file)) failed++;
+}
+
+if(values.watch) {
+	// Editors often write a file in several steps, so wait for the writes to settle before converting.
+	const timers = new Map<string, NodeJS.Timeout>();
+	const changed = (file: string) => {
+		clearTimeout(timers.get(file));
+		timers.set(file, setTimeout(() => {
+			timers.delete(file);
+			if(existsSync(file)) run(file);
+		}, 100));
+	};
+	// Editors that save by renaming a new file over the old one replace the watched file, so the directories are watched instead.
+	const dirs = new Map<string, Map<string, string>>();
+	for(const file of files) {
+		const dir = resolve(dirname(file));
+		if(!dirs.has(dir)) dirs.set(dir, new Map());
+		dirs.get(dir)!.set(basename(file), file);
+	}
+	for(const [dir, names] of dirs) {
+		watch(dir, (event, filename) => {
+			if(filename === null) {
+				for(const file of names.values()) changed(file);
+				return;
+			}
+			const file = names.get(filename);
+			if(file !== undefined) changed(file);
+		});
 	}
+	console.error(`Watching ${files.length} file(s) for changes.`);
+} else {
+	process.exitCode = failed ? 1 : 0;
 }
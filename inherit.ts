@@ -0,0 +1,137 @@
+import type {FGDNode, FGDClassDecl, FGDPropDecl} from './fgd.ts';
+
+export interface FGDInheritedDecl {
+	decl: FGDPropDecl,
+	/// Name of the class that declared `decl`.
+	from: string,
+}
+
+export interface FGDResolvedClass {
+	decl: FGDClassDecl,
+	/// Direct bases, as listed in `base(...)`.
+	bases: string[],
+	/// Every class this one inherits from, in resolution order (depth-first, left to right, each listed once).
+	ancestors: string[],
+	props: FGDInheritedDecl[],
+	inputs: FGDInheritedDecl[],
+	outputs: FGDInheritedDecl[],
+}
+
+export interface FGDInheritanceProblem {
+	type: 'unknown-base'|'cycle',
+	class: string,
+	base: string,
+	span: [number, number],
+	file?: string,
+	message: string,
+}
+
+export interface FGDInheritance {
+	/// Resolved classes, keyed by lower-cased class name.
+	classes: Map<string, FGDResolvedClass>,
+	problems: FGDInheritanceProblem[],
+}
+
+export function class_bases(decl: FGDClassDecl): string[] {
+	const bases: string[] = [];
+	for(const {name, args} of decl.impl) {
+		if(name.toLowerCase() !== 'base') continue;
+		if(typeof args === 'string') {
+			bases.push(args);
+		} else if(Array.isArray(args)) {
+			for(const arg of args) {
+				if(typeof arg === 'string') bases.push(arg);
+			}
+		}
+	}
+	return bases;
+}
+
+/// Computes the effective props, inputs and outputs of every class declaration.
+///
+/// The rules are:
+/// - Bases are merged depth-first in the order they are listed, so the props of `base(A, B)` are those of `A`, then those of `B`.
+/// - A key inherited through more than one path (diamond inheritance) is kept once; the first base that provides it wins.
+/// - A key the class declares itself replaces the inherited declaration, but keeps the inherited position.
+/// - Keys are compared case-insensitively, and props, inputs and outputs are separate namespaces.
+/// - Unknown bases and bases that would form a cycle are reported and skipped.
+/// - If a class name is declared more than once, the last declaration wins.
+export function resolve_bases(nodes: Iterable<FGDNode>): FGDInheritance {
+	const decls = new Map<string, FGDClassDecl>();
+	for(const node of nodes) {
+		if(node.type === 'Class') {
+			decls.set(node.name.toLowerCase(), node);
+		}
+	}
+	
+	const classes = new Map<string, FGDResolvedClass>();
+	const problems: FGDInheritanceProblem[] = [];
+	const visiting: string[] = [];
+	
+	const visit = (key: string): FGDResolvedClass => {
+		let resolved = classes.get(key);
+		if(resolved) return resolved;
+		
+		const decl = decls.get(key)!;
+		visiting.push(key);
+		
+		const bases = class_bases(decl);
+		const ancestors: string[] = [];
+		const props = new Map<string, FGDInheritedDecl>();
+		const inputs = new Map<string, FGDInheritedDecl>();
+		const outputs = new Map<string, FGDInheritedDecl>();
+		const lists = {prop: props, input: inputs, output: outputs};
+		
+		for(const base of bases) {
+			const base_key = base.toLowerCase();
+			if(!decls.has(base_key)) {
+				problems.push({
+					type: 'unknown-base', class: decl.name, base,
+					span: decl.span, file: decl.file,
+					message: `Class "${decl.name}" inherits from unknown class "${base}".`
+				});
+				continue;
+			}
+			if(visiting.includes(base_key)) {
+				const cycle = [...visiting.slice(visiting.indexOf(base_key)), base_key].map(k => decls.get(k)!.name);
+				problems.push({
+					type: 'cycle', class: decl.name, base,
+					span: decl.span, file: decl.file,
+					message: `Class "${decl.name}" inherits from itself: ${cycle.join(' -> ')}.`
+				});
+				continue;
+			}
+			
+			const parent = visit(base_key);
+			for(const name of [...parent.ancestors, parent.decl.name]) {
+				if(!ancestors.includes(name)) ancestors.push(name);
+			}
+			for(const [list, parent_list] of [[props, parent.props], [inputs, parent.inputs], [outputs, parent.outputs]] as const) {
+				for(const item of parent_list) {
+					const item_key = item.decl.name.toLowerCase();
+					if(!list.has(item_key)) list.set(item_key, item);
+				}
+			}
+		}
+		
+		for(const prop of decl.body) {
+			lists[prop.kind].set(prop.name.toLowerCase(), {decl: prop, from: decl.name});
+		}
+		
+		visiting.pop();
+		resolved = {
+			decl, bases, ancestors,
+			props: [...props.values()],
+			inputs: [...inputs.values()],
+			outputs: [...outputs.values()],
+		};
+		classes.set(key, resolved);
+		return resolved;
+	};
+	
+	for(const key of decls.keys()) {
+		visit(key);
+	}
+	
+	return {classes, problems};
+}
@@ -0,0 +1,194 @@
+import type {FGDNode, FGDClassDecl, FGDPropDecl} from './fgd.ts';
+import type {FGDDiagnostic} from './errors.ts';
+import {resolve_bases, class_bases, type FGDInheritance} from './inherit.js';
+
+export type FGDLintSeverity = FGDDiagnostic["severity"] | "off";
+
+export interface FGDLintContext {
+	/// The linted nodes.
+	nodes: FGDNode[],
+	/// The class declarations among `nodes`.
+	classes: FGDClassDecl[],
+	inheritance: FGDInheritance,
+	options: FGDLintOptions,
+	/// Adds a diagnostic with the rule's code and configured severity.
+	report(message: string, span: [number, number], file?: string): void,
+}
+
+export interface FGDLintRule {
+	code: string,
+	/// Severity used unless `FGDLintOptions.rules` sets another one.
+	severity: FGDLintSeverity,
+	description: string,
+	check(ctx: FGDLintContext): void,
+}
+
+export interface FGDLintOptions {
+	/// Severity by rule code, `off` disables a rule.
+	rules?: Record<string, FGDLintSeverity>,
+	/// Rules to run after the built-in ones.
+	custom?: FGDLintRule[],
+	/// Nodes of an FGD of the same dialect, for example the game's base FGD. `unknown-property-class` reports the property classes
+	/// that are missing from the `property_classes` of its `__PARSER_METADATA__` node. Without it, the rule does nothing, or reports
+	/// that it needs a dialect if it was enabled in `rules`.
+	dialect?: Iterable<FGDNode>,
+	/// Reuses an already resolved inheritance of the linted nodes.
+	inheritance?: FGDInheritance,
+}
+
+function props_of(decl: FGDClassDecl, kind: FGDPropDecl["kind"]): FGDPropDecl[] {
+	return decl.body.filter(prop => prop.kind === kind);
+}
+
+function is_base_class(decl: FGDClassDecl): boolean {
+	return decl.kind.toLowerCase() === 'baseclass';
+}
+
+export const LINT_RULES: FGDLintRule[] = [
+	{
+		code: 'duplicate-property',
+		severity: 'warning',
+		description: `A class declares a property, input or output more than once.`,
+		check(ctx) {
+			for(const decl of ctx.classes) {
+				const seen = new Set<string>();
+				for(const prop of decl.body) {
+					const key = `${prop.kind}:${prop.name.toLowerCase()}`;
+					if(seen.has(key)) ctx.report(`"${decl.name}" declares ${prop.kind} "${prop.name}" more than once.`, prop.span, decl.file);
+					seen.add(key);
+				}
+			}
+		}
+	},
+	{
+		code: 'unknown-base',
+		severity: 'error',
+		description: `A class inherits from a class that is never defined.`,
+		check(ctx) {
+			for(const problem of ctx.inheritance.problems) {
+				if(problem.type === 'unknown-base') ctx.report(problem.message, problem.span, problem.file);
+			}
+		}
+	},
+	{
+		code: 'flag-not-power-of-two',
+		severity: 'error',
+		description: `A \`flags\` value is not a single bit.`,
+		check(ctx) {
+			for(const decl of ctx.classes) {
+				for(const prop of decl.body) {
+					if(prop.class.toLowerCase() !== 'flags') continue;
+					for(const choice of prop.choices ?? []) {
+						const value = Number(choice.id);
+						if(Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0) continue;
+						ctx.report(`Flag "${choice.id}" of "${decl.name}.${prop.name}" is not a power of two.`, prop.span, decl.file);
+					}
+				}
+			}
+		}
+	},
+	{
+		code: 'default-not-in-choices',
+		severity: 'warning',
+		description: `The default of a \`choices\` property is not one of its choices.`,
+		check(ctx) {
+			for(const decl of ctx.classes) {
+				for(const prop of decl.body) {
+					if(!prop.choices || prop.class.toLowerCase() === 'flags') continue;
+					if(prop.default === null || prop.default === undefined || prop.default === '') continue;
+					const value = String(prop.default);
+					const found = prop.choices.some(choice => String(choice.id) === value
+						|| (value.trim() !== '' && String(choice.id).trim() !== '' && Number(choice.id) === Number(value)));
+					if(!found) ctx.report(`Default "${value}" of "${decl.name}.${prop.name}" is not one of its choices.`, prop.span, decl.file);
+				}
+			}
+		}
+	},
+	{
+		code: 'unknown-property-class',
+		severity: 'warning',
+		description: `A property uses a class that the dialect (see \`FGDLintOptions.dialect\`) doesn't know. Needs a dialect to check anything.`,
+		check(ctx) {
+			if(!ctx.options.dialect) {
+				// Enabling the rule on purpose without a dialect is a mistake, running it by default is not.
+				const severity = ctx.options.rules?.['unknown-property-class'];
+				if(severity && severity !== 'off') {
+					ctx.report(`The rule "unknown-property-class" needs a dialect to compare the property classes with.`, [0, 0], ctx.classes[0]?.file);
+				}
+				return;
+			}
+			const known = new Set<string>();
+			for(const node of ctx.options.dialect) {
+				if(node.type !== '__PARSER_METADATA__') continue;
+				for(const cls of node.meta.property_classes ?? []) known.add(String(cls).toLowerCase());
+			}
+			for(const decl of ctx.classes) {
+				for(const prop of props_of(decl, 'prop')) {
+					if(!known.has(prop.class.toLowerCase())) {
+						ctx.report(`"${decl.name}.${prop.name}" uses unknown property class "${prop.class}".`, prop.span, decl.file);
+					}
+				}
+			}
+		}
+	},
+	{
+		code: 'output-name',
+		severity: 'info',
+		description: `An output's name doesn't start with \`On\`.`,
+		check(ctx) {
+			for(const decl of ctx.classes) {
+				for(const prop of props_of(decl, 'output')) {
+					if(!prop.name.startsWith('On')) ctx.report(`Output "${decl.name}.${prop.name}" doesn't start with "On".`, prop.span, decl.file);
+				}
+			}
+		}
+	},
+	{
+		code: 'empty-description',
+		severity: 'info',
+		description: `A placeable class has no description, or a property, input or output has neither title nor description.`,
+		check(ctx) {
+			for(const decl of ctx.classes) {
+				if(!is_base_class(decl) && !decl.desc?.trim()) ctx.report(`Class "${decl.name}" has no description.`, decl.span, decl.file);
+				for(const prop of decl.body) {
+					if(prop.class.toLowerCase() === 'flags' || prop.title?.trim() || prop.description?.trim()) continue;
+					ctx.report(`${prop.kind === 'prop' ? 'Property' : prop.kind === 'input' ? 'Input' : 'Output'} "${decl.name}.${prop.name}" has no description.`, prop.span, decl.file);
+				}
+			}
+		}
+	},
+	{
+		code: 'unused-base',
+		severity: 'warning',
+		description: `A \`@BaseClass\` is never used as a base.`,
+		check(ctx) {
+			const used = new Set(ctx.classes.flatMap(decl => class_bases(decl).map(base => base.toLowerCase())));
+			for(const decl of ctx.classes) {
+				if(is_base_class(decl) && !used.has(decl.name.toLowerCase())) {
+					ctx.report(`Base class "${decl.name}" is never used.`, decl.span, decl.file);
+				}
+			}
+		}
+	},
+];
+
+/// Runs the built-in rules (`LINT_RULES`) and the custom rules over the nodes, with the severities from `options.rules`.
+/// Pass all nodes of a game, including the included files, or `unknown-base` and `unused-base` report classes of the other files.
+export function lint(nodes: Iterable<FGDNode>, options: FGDLintOptions = {}): FGDDiagnostic[] {
+	const list = [...nodes];
+	const classes = list.filter((node): node is FGDNode & FGDClassDecl => node.type === 'Class');
+	const inheritance = options.inheritance ?? resolve_bases(list);
+	const diagnostics: FGDDiagnostic[] = [];
+	
+	for(const rule of [...LINT_RULES, ...(options.custom ?? [])]) {
+		const severity = options.rules?.[rule.code] ?? rule.severity;
+		if(severity === 'off') continue;
+		rule.check({
+			nodes: list, classes, inheritance, options,
+			report(message, span, file) {
+				diagnostics.push({severity, code: rule.code, message, file, span});
+			},
+		});
+	}
+	return diagnostics;
+}
@@ -16,12 +16,39 @@ export function lookahead<T>(iterable: Iterable<T>, size?: number): LookAhead<T,
 		throw new RangeError("Size argument must be greater than 0");
 	}
 
-	const behindCache: T[] = new Array(size + 1);
-	const aheadCache: T[] = [];
+	// Both caches are ring buffers, so moving on doesn't shift every cached item like `Array.shift` does.
+	// The lookahead grows (to the next power of two) when items pushed back with `back()` don't fit.
+	let aheadCache: (T | undefined)[] = new Array(ring_size(size + 1));
+	let aheadStart = 0;
+	let aheadCount = 0;
+
+	// The last `size + 1` items returned by `next()`, the newest at `behindStart`.
+	const behindCache: (T | undefined)[] = new Array(size + 1);
+	let behindStart = 0;
+	let behindCount = 0;
 
 	const iterator = iterable[Symbol.iterator]();
 	let done = false;
 
+	// Only refill up to the lookahead size, so items pushed back with `back()` don't make the lookahead grow.
+	const fill = () => {
+		while (aheadCount <= size) {
+			const item = iterator.next();
+			if (item.done) break;
+			if (aheadCount === aheadCache.length) grow();
+			aheadCache[(aheadStart + aheadCount++) & (aheadCache.length - 1)] = item.value;
+		}
+	};
+
+	const grow = () => {
+		const items: (T | undefined)[] = new Array(aheadCache.length * 2);
+		for (let idx = 0; idx < aheadCount; idx++) {
+			items[idx] = aheadCache[(aheadStart + idx) & (aheadCache.length - 1)];
+		}
+		aheadCache = items;
+		aheadStart = 0;
+	};
+
 	return {
 		ahead(idx: number) {
 			if (idx > size) {
@@ -32,17 +59,12 @@ export function lookahead<T>(iterable: Iterable<T>, size?: number): LookAhead<T,
 				throw new RangeError("Look ahead index must be greater than 0");
 			}
 
-			while (aheadCache.length <= size) {
-				let item = iterator.next();
-				if (item.done) break;
-				aheadCache.push(item.value);
-			}
-
-			if (aheadCache.length === 0) {
+			fill();
+			if (idx > aheadCount) {
 				return undefined;
 			}
 
-			return aheadCache[idx - 1];
+			return aheadCache[(aheadStart + idx - 1) & (aheadCache.length - 1)];
 		},
 
 		behind(idx: number) {
@@ -54,11 +76,11 @@ export function lookahead<T>(iterable: Iterable<T>, size?: number): LookAhead<T,
 				throw new RangeError("Look behind index must be greater than 0");
 			}
 
-			if (behindCache.length === 0) {
+			if (idx >= behindCount) {
 				return undefined;
 			}
 
-			return behindCache[idx];
+			return behindCache[(behindStart - idx + behindCache.length) % behindCache.length];
 		},
 
 		[Symbol.iterator]() {
@@ -70,34 +92,44 @@ export function lookahead<T>(iterable: Iterable<T>, size?: number): LookAhead<T,
 		},
 
 		next(): IteratorResult<T> {
-			let item = iterator.next();
-
-			while (!item.done && aheadCache.length <= size) {
-				aheadCache.push(item.value);
-				item = iterator.next();
-			}
-
-			if (!item.done) {
-				aheadCache.push(item.value);
-			}
-
-			if (item.done && aheadCache.length === 0) {
+			fill();
+			if (aheadCount === 0) {
 				done = true;
 				return { done: true, value: undefined };
 			}
 
-			const value = aheadCache.shift() as T;
-			behindCache.unshift(value);
-			behindCache.pop();
+			const value = aheadCache[aheadStart] as T;
+			aheadCache[aheadStart] = undefined;
+			aheadStart = (aheadStart + 1) & (aheadCache.length - 1);
+			aheadCount--;
+
+			behindStart = (behindStart + 1) % behindCache.length;
+			behindCache[behindStart] = value;
+			behindCount = Math.min(behindCount + 1, behindCache.length);
 
 			return { done: false, value };
 		},
 
 		/// Pushes an item back into the lookahead, undoing the last `next()` call.
 		back(item: T): void {
-			aheadCache.unshift(item);
-			behindCache.shift();
+			if (aheadCount === aheadCache.length) grow();
+			aheadStart = (aheadStart - 1) & (aheadCache.length - 1);
+			aheadCache[aheadStart] = item;
+			aheadCount++;
+
+			if (behindCount > 0) {
+				behindCache[behindStart] = undefined;
+				behindStart = (behindStart - 1 + behindCache.length) % behindCache.length;
+				behindCount--;
+			}
 			done = false;
 		},
 	};
 }
+
+/// The smallest power of two that holds `count` items, so ring indices can wrap with a mask.
+function ring_size(count: number): number {
+	let size = 2;
+	while (size < count) size *= 2;
+	return size;
+}
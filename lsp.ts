@@ -0,0 +1,506 @@
+import {readFileSync, existsSync} from 'fs';
+import {fileURLToPath, pathToFileURL} from 'url';
+import {dirname, join} from 'path';
+import type {Readable, Writable} from 'stream';
+import type {FGDNode, FGDClassDecl, FGDPropDecl, Token} from './fgd.ts';
+import {parse_recover, tokenizer} from './fgd.js';
+import {LineIndex, type FGDDiagnostic} from './errors.js';
+import {lint} from './lint.js';
+
+// NOTE: Documents are synced in full on every change and analysed right away; FGDs are small enough for that.
+//       Included files are read from the open documents first and from disk otherwise, so definitions in a game's base FGD work
+//       without opening it. Positions are UTF-16 based on both sides (see `LineIndex`), so they convert without re-encoding.
+
+interface LSPPosition {line: number, character: number}
+interface LSPRange {start: LSPPosition, end: LSPPosition}
+interface LSPLocation {uri: string, range: LSPRange}
+interface LSPMessage {jsonrpc: "2.0", id?: number|string|null, method?: string, params?: any, result?: any, error?: {code: number, message: string}}
+
+const SEVERITY = {error: 1, warning: 2, info: 3};
+const SYMBOL_KIND = {class: 5, method: 6, property: 7, event: 24};
+const COMPLETION_KIND = {function: 3, property: 10, class: 7, keyword: 14, type_parameter: 25};
+
+/// Helpers most editors understand, completed next to the ones used in the open files.
+const HELPERS = ['base', 'size', 'color', 'model', 'studio', 'studioprop', 'iconsprite', 'sprite', 'decal', 'overlay', 'sphere',
+	'line', 'cylinder', 'frustum', 'halfgridsnap', 'lightprop', 'light', 'keyframe', 'animator', 'wirebox', 'sidelist', 'origin',
+	'vecline', 'axis', 'instance', 'metadata', 'tags', 'bbox', 'flags'];
+/// Property classes completed next to the ones used in the open files.
+const PROPERTY_CLASSES = ['string', 'integer', 'float', 'boolean', 'choices', 'flags', 'color255', 'color1', 'vector', 'origin', 'angle',
+	'studio', 'sprite', 'sound', 'decal', 'material', 'target_source', 'target_destination', 'target_name_or_class', 'filterclass',
+	'npcclass', 'sidelist', 'scene', 'node_dest', 'instance_file', 'void'];
+const METAPROPS = ['group', 'report', 'readonly', 'important'];
+
+interface BaseReference {
+	name: string,
+	span: [number, number],
+}
+
+interface Analysis {
+	uri: string,
+	text: string,
+	index: LineIndex,
+	nodes: FGDNode[],
+	diagnostics: FGDDiagnostic[],
+	/// The names in every `base(...)`.
+	references: BaseReference[],
+	/// The span of each class's name, for outlines and definitions.
+	names: Map<FGDClassDecl, [number, number]>,
+	/// URIs of the files this one `@include`s.
+	includes: string[],
+}
+
+function is_class(node: FGDNode): node is FGDNode & FGDClassDecl {
+	return node.type === 'Class';
+}
+
+function tokens_of(text: string): Token[] {
+	return [...tokenizer(text, '', () => {})];
+}
+
+function text_of(text: string, token: Token): string {
+	return text.slice(token.span[0], token.span[1]);
+}
+
+/// Finds the names in `base(...)` helpers, which the AST only keeps as strings.
+function base_references(text: string, tokens: Token[]): BaseReference[] {
+	const references: BaseReference[] = [];
+	let depth = 0;
+	for(let idx = 0; idx < tokens.length; idx++) {
+		const token = tokens[idx];
+		if(token.type === 'bracket') depth = Math.max(0, depth + (text_of(text, token) === '[' ? 1 : -1));
+		if(depth !== 0 || token.type !== 'ident' || text_of(text, token).toLowerCase() !== 'base') continue;
+		if(tokens[idx + 1]?.type !== 'paren' || text_of(text, tokens[idx + 1]) !== '(') continue;
+		for(idx += 2; idx < tokens.length && tokens[idx].type !== 'paren'; idx++) {
+			if(tokens[idx].type === 'ident' || tokens[idx].type === 'string') {
+				references.push({name: text_of(text, tokens[idx]), span: tokens[idx].span});
+			}
+		}
+	}
+	return references;
+}
+
+/// Finds the name after the `=` of every class header.
+function class_names(text: string, tokens: Token[], classes: FGDClassDecl[]): Map<FGDClassDecl, [number, number]> {
+	const names = new Map<FGDClassDecl, [number, number]>();
+	let idx = 0;
+	for(const decl of classes) {
+		while(idx < tokens.length && tokens[idx].span[0] < decl.span[0]) idx++;
+		let parens = 0;
+		for(; idx < tokens.length && tokens[idx].span[0] < decl.span[1]; idx++) {
+			const token = tokens[idx];
+			if(token.type === 'paren' || token.type === 'brace') parens += '({'.includes(text_of(text, token)) ? 1 : -1;
+			if(token.type === 'bracket') break;
+			if(parens === 0 && token.type === 'symbol' && text_of(text, token) === '=' && tokens[idx + 1]?.type === 'ident') {
+				names.set(decl, tokens[idx + 1].span);
+				break;
+			}
+		}
+	}
+	return names;
+}
+
+function contains(span: [number, number], offset: number): boolean {
+	return span[0] <= offset && offset <= span[1];
+}
+
+function markdown_escape(text: string): string {
+	return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function prop_hover(decl: FGDPropDecl): string {
+	const lines = [`\`${decl.kind === 'prop' ? '' : decl.kind + ' '}${decl.name}(${decl.class})\``];
+	if(decl.title) lines.push(`**${markdown_escape(decl.title)}**`);
+	if(decl.description) lines.push(markdown_escape(decl.description));
+	if(decl.default !== null && decl.default !== undefined) {
+		lines.push(`Default: \`${typeof decl.default === 'string' ? decl.default : JSON.stringify(decl.default)}\``);
+	}
+	return lines.join('\n\n');
+}
+
+function class_hover(decl: FGDClassDecl): string {
+	const lines = [`\`@${decl.kind} ${decl.name}\``];
+	if(decl.desc) lines.push(markdown_escape(decl.desc));
+	return lines.join('\n\n');
+}
+
+type CompletionContext = "helper" | "base" | "property-class" | "metaprop" | "none";
+
+/// Works out what is being typed at `offset` from the tokens in front of it.
+function completion_context(text: string, offset: number): CompletionContext {
+	const tokens = tokens_of(text.slice(0, offset));
+	const last = tokens[tokens.length - 1];
+	if(last && last.span[1] === offset && last.type === 'ident') tokens.pop();
+	
+	const brackets: string[] = [];
+	let parens: string[] = [];
+	let named = false;
+	let prev: Token|undefined;
+	for(const token of tokens) {
+		const value = text_of(text, token);
+		if(token.type === 'symbol' && value === '@' && brackets.length === 0) {
+			parens = [];
+			named = false;
+		} else if(token.type === 'symbol' && value === '=' && brackets.length === 0 && parens.length === 0) {
+			named = true;
+		} else if(token.type === 'paren' || token.type === 'brace') {
+			if(value === '(' || value === '{') parens.push(prev?.type === 'ident' ? text_of(text, prev).toLowerCase() : '');
+			else parens.pop();
+		} else if(token.type === 'bracket') {
+			if(value === '[') brackets.push(prev && text_of(text, prev) === ')' ? 'metaprops' : prev && text_of(text, prev) === '=' && brackets.length ? 'choices' : 'body');
+			else brackets.pop();
+		}
+		prev = token;
+	}
+	
+	if(brackets.length === 0) {
+		if(parens.length) return parens[parens.length - 1] === 'base' ? 'base' : 'none';
+		return named ? 'none' : 'helper';
+	}
+	if(brackets.length === 1 && parens.length) return 'property-class';
+	if(brackets.length === 2 && brackets[1] === 'metaprops') return 'metaprop';
+	return 'none';
+}
+
+export class FGDLanguageServer {
+	#send: (message: LSPMessage) => void;
+	#open = new Map<string, string>();
+	#analyses = new Map<string, Analysis>();
+	#shutdown = false;
+	
+	/// `send` writes a message to the client.
+	constructor(send: (message: LSPMessage) => void) {
+		this.#send = send;
+	}
+	
+	/// Whether the client asked the server to shut down before exiting.
+	get shutdown() {
+		return this.#shutdown;
+	}
+	
+	/// Handles one message from the client, returning the response for requests.
+	handle(message: LSPMessage): LSPMessage|undefined {
+		const {id, method, params} = message;
+		if(method === undefined) return undefined;
+		try {
+			const result = this.#dispatch(method, params);
+			if(id === undefined) return undefined;
+			if(result === undefined) return {jsonrpc: '2.0', id, error: {code: -32601, message: `Unknown method "${method}".`}};
+			return {jsonrpc: '2.0', id, result: result.value};
+		} catch (error) {
+			if(id === undefined) return undefined;
+			return {jsonrpc: '2.0', id, error: {code: -32603, message: String(error instanceof Error ? error.message : error)}};
+		}
+	}
+	
+	#dispatch(method: string, params: any): {value: unknown}|undefined {
+		switch(method) {
+			case 'initialize': return {value: {
+				capabilities: {
+					textDocumentSync: 1,
+					hoverProvider: true,
+					definitionProvider: true,
+					referencesProvider: true,
+					documentSymbolProvider: true,
+					completionProvider: {triggerCharacters: ['(', ',', '[', ' ']},
+				},
+				serverInfo: {name: 'fgdls'},
+			}};
+			case 'shutdown':
+				this.#shutdown = true;
+				return {value: null};
+			case 'textDocument/didOpen':
+				this.#update(params.textDocument.uri, params.textDocument.text);
+				return {value: undefined};
+			case 'textDocument/didChange': {
+				const changes = params.contentChanges as {text: string}[];
+				if(changes.length) this.#update(params.textDocument.uri, changes[changes.length - 1].text);
+				return {value: undefined};
+			}
+			case 'textDocument/didClose':
+				this.#open.delete(params.textDocument.uri);
+				this.#analyses.clear();
+				this.#send({jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: {uri: params.textDocument.uri, diagnostics: []}});
+				this.#publish();
+				return {value: undefined};
+			case 'textDocument/hover': return {value: this.#hover(params.textDocument.uri, params.position)};
+			case 'textDocument/definition': return {value: this.#definition(params.textDocument.uri, params.position)};
+			case 'textDocument/references': return {value: this.#references(params.textDocument.uri, params.position, params.context?.includeDeclaration ?? true)};
+			case 'textDocument/documentSymbol': return {value: this.#symbols(params.textDocument.uri)};
+			case 'textDocument/completion': return {value: this.#completion(params.textDocument.uri, params.position)};
+			default:
+				// Notifications like `initialized` and `$/cancelRequest` need no answer.
+				return method.startsWith('$/') || method === 'initialized' || method === 'exit' ? {value: undefined} : undefined;
+		}
+	}
+	
+	#update(uri: string, text: string) {
+		this.#open.set(uri, text);
+		// Any open document may include the changed one.
+		this.#analyses.clear();
+		this.#publish();
+	}
+	
+	#publish() {
+		for(const uri of this.#open.keys()) {
+			const analysis = this.#analyse(uri)!;
+			const files = this.#files(uri);
+			const diagnostics = [
+				...analysis.diagnostics,
+				...lint(files.flatMap(file => file.nodes), {rules: {'unused-base': 'off'}}).filter(diagnostic => diagnostic.file === uri),
+			];
+			this.#send({jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: {
+				uri,
+				diagnostics: diagnostics.map(diagnostic => ({
+					range: this.#range(analysis, diagnostic.span),
+					severity: SEVERITY[diagnostic.severity],
+					code: diagnostic.code,
+					source: 'fgd',
+					message: diagnostic.message,
+				})),
+			}});
+		}
+	}
+	
+	#read(uri: string): string|undefined {
+		const open = this.#open.get(uri);
+		if(open !== undefined) return open;
+		if(!uri.startsWith('file:')) return undefined;
+		const path = fileURLToPath(uri);
+		return existsSync(path) ? readFileSync(path, 'utf-8') : undefined;
+	}
+	
+	#analyse(uri: string): Analysis|undefined {
+		const cached = this.#analyses.get(uri);
+		if(cached) return cached;
+		const text = this.#read(uri);
+		if(text === undefined) return undefined;
+		
+		const {nodes, diagnostics} = parse_recover(uri, text);
+		const tokens = tokens_of(text);
+		const classes: FGDClassDecl[] = [];
+		const includes: string[] = [];
+		for(const node of nodes) {
+			node.file = uri;
+			if(is_class(node)) classes.push(node);
+			if(node.type === 'Include' && uri.startsWith('file:')) {
+				includes.push(pathToFileURL(join(dirname(fileURLToPath(uri)), node.name.replaceAll('\\', '/'))).href);
+			}
+		}
+		const analysis: Analysis = {
+			uri, text, index: new LineIndex(text), nodes, diagnostics,
+			references: base_references(text, tokens),
+			names: class_names(text, tokens, classes),
+			includes,
+		};
+		this.#analyses.set(uri, analysis);
+		return analysis;
+	}
+	
+	/// The document and every file it includes, directly or not.
+	#files(uri: string): Analysis[] {
+		const files: Analysis[] = [];
+		const seen = new Set<string>();
+		const visit = (uri: string) => {
+			if(seen.has(uri)) return;
+			seen.add(uri);
+			const analysis = this.#analyse(uri);
+			if(!analysis) return;
+			files.push(analysis);
+			analysis.includes.forEach(visit);
+		};
+		visit(uri);
+		return files;
+	}
+	
+	/// The files a document can see, followed by the other open documents and their includes.
+	#workspace(uri: string): Analysis[] {
+		const files = this.#files(uri);
+		for(const open of this.#open.keys()) {
+			for(const file of this.#files(open)) {
+				if(!files.includes(file)) files.push(file);
+			}
+		}
+		return files;
+	}
+	
+	#range(analysis: Analysis, span: [number, number]): LSPRange {
+		const {start, end} = analysis.index.span(span);
+		return {start: {line: start.line - 1, character: start.column - 1}, end: {line: end.line - 1, character: end.column - 1}};
+	}
+	
+	#offset(analysis: Analysis, position: LSPPosition): number {
+		return analysis.index.offset({line: position.line + 1, column: position.character + 1});
+	}
+	
+	/// Finds a class in the files the document sees (the last declaration wins, like in `resolve_bases`), then in the other open documents.
+	#find_class(uri: string, name: string): {analysis: Analysis, decl: FGDClassDecl}|undefined {
+		const key = name.toLowerCase();
+		const find = (files: Analysis[]) => {
+			let found: {analysis: Analysis, decl: FGDClassDecl}|undefined;
+			for(const analysis of files) {
+				for(const node of analysis.nodes) {
+					if(is_class(node) && node.name.toLowerCase() === key) found = {analysis, decl: node};
+				}
+			}
+			return found;
+		};
+		return find(this.#files(uri)) ?? find(this.#workspace(uri));
+	}
+	
+	/// The base class named at the position, in a `base(...)` or as the name of a class header.
+	#class_at(analysis: Analysis, offset: number): string|undefined {
+		const reference = analysis.references.find(reference => contains(reference.span, offset));
+		if(reference) return reference.name;
+		for(const [decl, span] of analysis.names) {
+			if(contains(span, offset)) return decl.name;
+		}
+		return undefined;
+	}
+	
+	#hover(uri: string, position: LSPPosition) {
+		const analysis = this.#analyse(uri);
+		if(!analysis) return null;
+		const offset = this.#offset(analysis, position);
+		
+		const reference = analysis.references.find(reference => contains(reference.span, offset));
+		if(reference) {
+			const found = this.#find_class(uri, reference.name);
+			if(!found) return null;
+			return {contents: {kind: 'markdown', value: class_hover(found.decl)}, range: this.#range(analysis, reference.span)};
+		}
+		for(const node of analysis.nodes) {
+			if(!is_class(node) || !contains(node.span, offset)) continue;
+			const prop = node.body.find(prop => contains(prop.span, offset));
+			if(prop) return {contents: {kind: 'markdown', value: prop_hover(prop)}, range: this.#range(analysis, prop.span)};
+			const name = analysis.names.get(node);
+			if(name && contains(name, offset)) return {contents: {kind: 'markdown', value: class_hover(node)}, range: this.#range(analysis, name)};
+		}
+		return null;
+	}
+	
+	#definition(uri: string, position: LSPPosition): LSPLocation|null {
+		const analysis = this.#analyse(uri);
+		if(!analysis) return null;
+		const reference = analysis.references.find(reference => contains(reference.span, this.#offset(analysis, position)));
+		const found = reference && this.#find_class(uri, reference.name);
+		if(!found) return null;
+		return {uri: found.analysis.uri, range: this.#range(found.analysis, found.analysis.names.get(found.decl) ?? found.decl.span)};
+	}
+	
+	#references(uri: string, position: LSPPosition, declaration: boolean): LSPLocation[] {
+		const analysis = this.#analyse(uri);
+		if(!analysis) return [];
+		const name = this.#class_at(analysis, this.#offset(analysis, position));
+		if(name === undefined) return [];
+		const key = name.toLowerCase();
+		const locations: LSPLocation[] = [];
+		for(const file of this.#workspace(uri)) {
+			if(declaration) {
+				for(const [decl, span] of file.names) {
+					if(decl.name.toLowerCase() === key) locations.push({uri: file.uri, range: this.#range(file, span)});
+				}
+			}
+			for(const reference of file.references) {
+				if(reference.name.toLowerCase() === key) locations.push({uri: file.uri, range: this.#range(file, reference.span)});
+			}
+		}
+		return locations;
+	}
+	
+	#symbols(uri: string) {
+		const analysis = this.#analyse(uri);
+		if(!analysis) return [];
+		return analysis.nodes.filter(is_class).map(decl => ({
+			name: decl.name,
+			detail: `@${decl.kind}`,
+			kind: SYMBOL_KIND.class,
+			range: this.#range(analysis, decl.span),
+			selectionRange: this.#range(analysis, analysis.names.get(decl) ?? decl.span),
+			children: decl.body.map(prop => ({
+				name: prop.name,
+				detail: prop.class,
+				kind: prop.kind === 'input' ? SYMBOL_KIND.method : prop.kind === 'output' ? SYMBOL_KIND.event : SYMBOL_KIND.property,
+				range: this.#range(analysis, prop.span),
+				selectionRange: this.#range(analysis, prop.span),
+			})),
+		}));
+	}
+	
+	#completion(uri: string, position: LSPPosition) {
+		const analysis = this.#analyse(uri);
+		if(!analysis) return [];
+		const files = this.#files(uri);
+		const items = (labels: Iterable<string>, kind: number, detail?: (label: string) => string|undefined) => {
+			const seen = new Set<string>();
+			const list = [];
+			for(const label of labels) {
+				if(seen.has(label.toLowerCase())) continue;
+				seen.add(label.toLowerCase());
+				list.push({label, kind, detail: detail?.(label)});
+			}
+			return list;
+		};
+		const classes = files.flatMap(file => file.nodes.filter(is_class));
+		
+		switch(completion_context(analysis.text, this.#offset(analysis, position))) {
+			case 'base': {
+				const bases = classes.filter(decl => decl.kind.toLowerCase() === 'baseclass');
+				return items(bases.map(decl => decl.name), COMPLETION_KIND.class, label => bases.find(decl => decl.name === label)?.desc);
+			}
+			case 'helper':
+				return items([...HELPERS, ...classes.flatMap(decl => decl.impl.map(base => base.name))], COMPLETION_KIND.function);
+			case 'property-class':
+				return items([...PROPERTY_CLASSES, ...classes.flatMap(decl => decl.body.map(prop => prop.class))], COMPLETION_KIND.type_parameter);
+			case 'metaprop':
+				return items(METAPROPS, COMPLETION_KIND.keyword);
+			default:
+				return [];
+		}
+	}
+}
+
+/// Runs a language server on a pair of streams (usually stdin and stdout), framing messages with `Content-Length` headers.
+/// Resolves with the exit code once the client sends `exit` or closes the input.
+export function listen(input: Readable, output: Writable): Promise<number> {
+	const send = (message: LSPMessage) => {
+		const body = JSON.stringify(message);
+		output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+	};
+	const server = new FGDLanguageServer(send);
+	let buffer = Buffer.alloc(0);
+	
+	return new Promise(resolve => {
+		input.on('data', (chunk: Buffer) => {
+			buffer = Buffer.concat([buffer, chunk]);
+			while(true) {
+				const header_end = buffer.indexOf('\r\n\r\n');
+				if(header_end === -1) return;
+				const length = /content-length:\s*(\d+)/i.exec(buffer.subarray(0, header_end).toString('ascii'));
+				if(!length) {
+					// Not a header we understand, drop it.
+					buffer = buffer.subarray(header_end + 4);
+					continue;
+				}
+				const end = header_end + 4 + Number(length[1]);
+				if(buffer.length < end) return;
+				const body = buffer.subarray(header_end + 4, end).toString('utf-8');
+				buffer = buffer.subarray(end);
+				
+				let message: LSPMessage;
+				try {
+					message = JSON.parse(body);
+				} catch {
+					send({jsonrpc: '2.0', id: null, error: {code: -32700, message: 'Parse error.'}});
+					continue;
+				}
+				if(message.method === 'exit') {
+					resolve(server.shutdown ? 0 : 1);
+					return;
+				}
+				const response = server.handle(message);
+				if(response) send(response);
+			}
+		});
+		input.on('end', () => resolve(server.shutdown ? 0 : 1));
+	});
+}
@@ -0,0 +1,94 @@
+import {FGDParseError} from './errors.js';
+import type {FGDEntity} from './validate.ts';
+
+// NOTE: Only entities and their key/value pairs are read; brushes and patches are skipped line by line and only counted.
+//       Brush lines are never tokenized, because texture names like `{fence` may contain braces.
+//       This works for the standard Quake format as well as Valve 220, Quake 2/3 and `brushDef`/`patchDef2` blocks.
+
+/// Reads the entities of a `.map` file.
+export function parse_map(input: string, name: string = ''): FGDEntity[] {
+	const entities: FGDEntity[] = [];
+	let idx = 0;
+	
+	const error = (reason: string, span: [number, number], code: 'unexpected-token'|'unexpected-eof'|'unterminated-string' = 'unexpected-token') => {
+		return new FGDParseError(code, reason, {file: name, input, span});
+	};
+	
+	/// Skips whitespace and `//` comments.
+	const skip = () => {
+		while(idx < input.length) {
+			const char = input[idx];
+			if(char === ' ' || char === '\t' || char === '\r' || char === '\n') {
+				idx++;
+			} else if(input.startsWith('//', idx)) {
+				const end = input.indexOf('\n', idx);
+				idx = end === -1 ? input.length : end;
+			} else {
+				break;
+			}
+		}
+	};
+	
+	const string = (): string => {
+		const start = idx++;
+		const end = input.indexOf('"', idx);
+		const newline = input.indexOf('\n', idx);
+		if(end === -1 || (newline !== -1 && newline < end)) {
+			throw error(`Unterminated string.`, [start, newline === -1 ? input.length : newline], 'unterminated-string');
+		}
+		idx = end + 1;
+		return input.slice(start + 1, end);
+	};
+	
+	/// Skips a brush (or patch) whose `{` was just read, tracking nested blocks by their lines.
+	const brush = () => {
+		const start = idx - 1;
+		let depth = 1;
+		while(depth > 0) {
+			if(idx >= input.length) throw error(`Unterminated brush.`, [start, start + 1], 'unexpected-eof');
+			let end = input.indexOf('\n', idx);
+			if(end === -1) end = input.length;
+			const line = input.slice(idx, end).trim();
+			if(line === '{') depth++;
+			else if(line === '}') depth--;
+			idx = end + 1;
+		}
+		idx = Math.min(idx, input.length);
+	};
+	
+	skip();
+	while(idx < input.length) {
+		if(input[idx] !== '{') throw error(`Expected "{" to start an entity, but got "${input[idx]}".`, [idx, idx + 1]);
+		const start = idx++;
+		const entity: FGDEntity = {span: [start, start], file: name || undefined, keys: [], brushes: 0};
+		
+		for(;;) {
+			skip();
+			if(idx >= input.length) throw error(`Unterminated entity.`, [start, start + 1], 'unexpected-eof');
+			const char = input[idx];
+			if(char === '}') {
+				idx++;
+				break;
+			}
+			if(char === '{') {
+				idx++;
+				brush();
+				entity.brushes++;
+				continue;
+			}
+			if(char !== '"') throw error(`Expected a key, a brush or "}", but got "${char}".`, [idx, idx + 1]);
+			
+			const key_start = idx;
+			const key = string();
+			skip();
+			if(input[idx] !== '"') throw error(`Expected a value for "${key}".`, [idx, idx + 1], idx < input.length ? 'unexpected-token' : 'unexpected-eof');
+			const value = string();
+			entity.keys.push({key, value, span: [key_start, idx]});
+		}
+		
+		entity.span[1] = idx;
+		entities.push(entity);
+		skip();
+	}
+	return entities;
+}
@@ -0,0 +1,161 @@
+import type {FGDNode, FGDClassDecl, FGDClassBaseDecl, FGDPropDecl, FGDMapSize, FGDMaterialExclusion, FGDVersion} from './fgd.ts';
+import {FGDMetadataCollector} from './fgd.js';
+
+// NOTE: Merged classes keep the position of their first declaration, so base classes stay in front of the classes using them,
+//       even if a later layer redeclares the base. A class that was `@exclude`d and declared again moves to the end.
+//       Spans of the merged nodes still point into the layer (see `file` and `layer`) they were taken from.
+
+/// `replace` drops the earlier declaration of a class; `extend` keeps it and lays the later one over it:
+/// members and helpers are replaced by name and new ones are appended, and the description is replaced if the later one has one.
+export type FGDMergeMode = "replace" | "extend";
+
+export interface FGDLayer {
+	name: string,
+	nodes: Iterable<FGDNode>,
+}
+
+export interface FGDMergeOptions {
+	/// How a class that is declared again combines with its earlier declaration, `replace` by default.
+	/// A function picks the mode per class, given the earlier and the later declaration.
+	mode?: FGDMergeMode | ((previous: FGDClassDecl, next: FGDClassDecl) => FGDMergeMode),
+}
+
+export type FGDMergedClass = FGDClassDecl & {
+	/// Name of the layer the class was last declared in.
+	layer: string,
+	/// Names of the layers that contributed to the class, in order.
+	layers: string[],
+};
+
+function member_key(decl: FGDPropDecl): string {
+	return `${decl.kind}:${decl.name.toLowerCase()}`;
+}
+
+/// Replaces items of `base` with the items of `over` that have the same key, and appends the rest.
+function overlay<T>(base: T[], over: T[], key: (item: T) => string): T[] {
+	const items = [...base];
+	const index = new Map(items.map((item, idx) => [key(item), idx]));
+	for(const item of over) {
+		const idx = index.get(key(item));
+		if(idx === undefined) {
+			index.set(key(item), items.length);
+			items.push(item);
+		} else {
+			items[idx] = item;
+		}
+	}
+	return items;
+}
+
+function extend_class(previous: FGDMergedClass, next: FGDClassDecl, layer: string): FGDMergedClass {
+	const helper_key = (base: FGDClassBaseDecl) => base.name.toLowerCase();
+	const merged: FGDMergedClass = {
+		...next,
+		desc: next.desc ?? previous.desc,
+		impl: overlay(previous.impl, next.impl, helper_key),
+		body: overlay(previous.body, next.body, member_key),
+		layer,
+		layers: [...previous.layers, layer],
+	};
+	if(merged.desc === undefined) delete merged.desc;
+	if(previous.meta || next.meta) merged.meta = overlay(previous.meta ?? [], next.meta ?? [], meta => meta.name.toLowerCase());
+	return merged;
+}
+
+/// Layers FGDs in order, for example a base game's FGD and the FGDs of mods built on it.
+/// Later class declarations replace or extend earlier ones (see `FGDMergeOptions.mode`), `@exclude` removes a class declared
+/// by an earlier layer, `@MaterialExclusion` lists are unioned, `@AutoVisGroup`s with the same name are combined,
+/// and `@mapsize`, `@version` and `@EntityGroup`s with the same name take the last value.
+/// `@include`s are kept once each, so pass layers that were read with `parse_with_includes` to get a self-contained result.
+/// Returns the merged nodes, ending with a `__PARSER_METADATA__` node for the merged classes that spans the longest layer.
+export function merge_layers(layers: Iterable<FGDLayer>, options: FGDMergeOptions = {}): FGDNode[] {
+	const slots: (FGDNode|undefined)[] = [];
+	const classes = new Map<string, number>();
+	const named = new Map<string, number>();
+	let version: number|undefined, map_size: number|undefined, materials: number|undefined;
+	// The layers are separate texts, so the metadata ends where the longest one does.
+	let span_end = 0;
+	
+	const place = (node: FGDNode, idx: number|undefined): number => {
+		if(idx === undefined) return slots.push(node) - 1;
+		slots[idx] = node;
+		return idx;
+	};
+	
+	for(const layer of layers) {
+		for(const node of layer.nodes) {
+			span_end = Math.max(span_end, node.span[1]);
+			switch(node.type) {
+				case '__PARSER_METADATA__':
+					break;
+				case 'Version':
+					version = place(node as FGDVersion, version);
+					break;
+				case 'MapSize':
+					map_size = place(node as FGDMapSize, map_size);
+					break;
+				case 'MaterialExclusion': {
+					const previous = materials === undefined ? undefined : slots[materials] as FGDMaterialExclusion;
+					if(!previous) {
+						materials = place({...node, list: [...node.list]}, materials);
+						break;
+					}
+					const seen = new Set(previous.list.map(path => path.toLowerCase()));
+					for(const path of node.list) {
+						if(seen.has(path.toLowerCase())) continue;
+						seen.add(path.toLowerCase());
+						previous.list.push(path);
+					}
+					break;
+				}
+				case 'Exclude': {
+					const key = node.name.toLowerCase();
+					const idx = classes.get(key);
+					if(idx !== undefined) slots[idx] = undefined;
+					classes.delete(key);
+					break;
+				}
+				case 'AutoVisGroup': {
+					const key = `${node.type}:${node.name.toLowerCase()}`;
+					const idx = named.get(key);
+					const previous = idx === undefined ? undefined : slots[idx];
+					if(previous?.type !== 'AutoVisGroup') {
+						named.set(key, place({...node, groups: {...node.groups}}, idx));
+						break;
+					}
+					for(const [group, members] of Object.entries(node.groups)) {
+						previous.groups[group] = [...new Set([...(previous.groups[group] ?? []), ...members])];
+					}
+					break;
+				}
+				case 'Include':
+				case 'EntityGroup': {
+					const key = `${node.type}:${node.name.toLowerCase()}`;
+					named.set(key, place(node, named.get(key)));
+					break;
+				}
+				case 'Class': {
+					const key = node.name.toLowerCase();
+					const idx = classes.get(key);
+					const previous = idx === undefined ? undefined : slots[idx] as FGDMergedClass;
+					const mode = typeof options.mode === 'function' && previous ? options.mode(previous, node) : options.mode;
+					const merged: FGDMergedClass = previous && mode === 'extend'
+						? extend_class(previous, node, layer.name)
+						: {...node, layer: layer.name, layers: [layer.name]};
+					classes.set(key, place(merged, idx));
+					break;
+				}
+				default:
+					slots.push(node);
+			}
+		}
+	}
+	
+	const nodes = slots.filter((node): node is FGDNode => node !== undefined);
+	const metadata = new FGDMetadataCollector();
+	for(const node of nodes) {
+		if(node.type === 'Class') metadata.add(node);
+	}
+	nodes.push(metadata.node(span_end));
+	return nodes;
+}
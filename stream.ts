@@ -0,0 +1,110 @@
+import type {FGDNode, FGDParseOptions} from './fgd.ts';
+import type {FGDDiagnostic} from './errors.ts';
+import {parse, FGDMetadataCollector} from './fgd.js';
+import {FGDParseError, FGDIncompleteInputError} from './errors.js';
+import {resume_offset, shift_spans} from './incremental.js';
+
+// NOTE: The text that has arrived is parsed as partial input (see `FGDParseOptions.partial`), which yields the declarations
+//       that are complete and throws once the parser reaches the end. Parsing resumes after the last complete declaration
+//       when the next chunk arrives, so only the unfinished tail is kept, from the line before it on, for error messages.
+//       A declaration with errors is only passed on together with a later one without errors, as recovering from an error
+//       can leave tokens after its end that are parsed again.
+
+const TOKENIZER_ERRORS = ['unexpected-character', 'unterminated-string'];
+
+export type FGDStreamOptions = Pick<FGDParseOptions, "diagnostics">;
+
+/// Parses FGD text that arrives in chunks, such as a Node `Readable`, yielding each top-level declaration once it is complete.
+/// Byte chunks are decoded as UTF-8, and tokens may be split across chunks. Like `parse`, the last node is the `__PARSER_METADATA__` node,
+/// and spans are offsets into the whole text.
+export async function* parse_stream(name: string, chunks: AsyncIterable<string|Uint8Array>, options: FGDStreamOptions = {}): AsyncGenerator<FGDNode, void> {
+	// Keep a byte order mark like `readFileSync` does, so the spans are the same.
+	const decoder = new TextDecoder('utf-8', {ignoreBOM: true});
+	const metadata = new FGDMetadataCollector();
+	// The text from `base` on, and the number of lines before it.
+	let buffer = '';
+	let base = 0;
+	let lines = 0;
+	// Where parsing resumes in `buffer`, and where the last complete declaration ended in the whole text.
+	let start = 0;
+	let last_end = 0;
+	
+	// Positions in errors are relative to `buffer`, which starts at a line start, so lines before it are prepended for the line numbers.
+	const relocate = (error: unknown): unknown => {
+		if(!(error instanceof FGDParseError)) return error;
+		const {code, reason, file, expected, actual} = error;
+		const moved = new FGDParseError(code, reason, {file, input: '\n'.repeat(lines) + buffer, span: [error.span[0] + lines, error.span[1] + lines], expected, actual});
+		moved.span = [error.span[0] + base, error.span[1] + base];
+		return moved;
+	};
+	
+	// A parse error in partial input is final, but the rest of its line is needed for the error message.
+	let failure: FGDParseError|undefined;
+	
+	function* drain(partial: boolean): Generator<FGDNode, void> {
+		const diagnostics: FGDDiagnostic[]|undefined = options.diagnostics && [];
+		const nodes: FGDNode[] = [];
+		// The declarations and diagnostics up to the last declaration parsed without errors.
+		let committed = 0;
+		let settled = 0;
+		let reported = 0;
+		let thrown: unknown;
+		try {
+			for(const node of parse(name, buffer, {start, diagnostics, partial})) {
+				if(node.type === '__PARSER_METADATA__') {
+					// Without any tokens after `start`, the last token is the one that ended the last complete declaration.
+					if(node.span[1] > start) last_end = node.span[1] + base;
+					break;
+				}
+				nodes.push(node);
+				const count = diagnostics?.length ?? 0;
+				if(!partial || count === reported) {
+					committed = nodes.length;
+					settled = count;
+				}
+				reported = count;
+			}
+		} catch (error) {
+			if(!(error instanceof FGDIncompleteInputError)) {
+				if(partial && error instanceof FGDParseError) failure = error;
+				else thrown = relocate(error);
+			}
+		}
+		
+		const last = committed ? nodes[committed - 1] : undefined;
+		for(const node of nodes.slice(0, committed)) {
+			if(node.type === 'Class') metadata.add(node);
+			last_end = Math.max(last_end, node.span[1] + base);
+			yield base ? shift_spans(node, base) : node;
+		}
+		if(thrown) throw thrown;
+		
+		// A declaration can report errors at the tokens after it, but tokenizer errors after it are reported again when parsing resumes.
+		const resume = partial && last ? resume_offset(buffer, last) : start;
+		if(diagnostics) {
+			const kept = partial ? diagnostics.slice(0, settled).filter(diagnostic => diagnostic.span[0] < resume || !TOKENIZER_ERRORS.includes(diagnostic.code)) : diagnostics;
+			for(const diagnostic of kept.sort((a, b) => a.span[0] - b.span[0])) {
+				options.diagnostics!.push(base ? shift_spans(diagnostic, base) : diagnostic);
+			}
+		}
+		if(!last || !partial) return;
+		
+		const line = buffer.lastIndexOf('\n', resume - 1);
+		const cut = line > 0 ? buffer.lastIndexOf('\n', line - 1) + 1 : 0;
+		for(let idx = buffer.indexOf('\n'); idx !== -1 && idx < cut; idx = buffer.indexOf('\n', idx + 1)) lines++;
+		buffer = buffer.slice(cut);
+		base += cut;
+		start = resume - cut;
+		if(failure) failure.span = [failure.span[0] - cut, failure.span[1] - cut];
+	}
+	
+	for await (const chunk of chunks) {
+		buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, {stream: true});
+		if(!failure) yield* drain(true);
+		if(failure && buffer.includes('\n', failure.span[1])) throw relocate(failure);
+	}
+	buffer += decoder.decode();
+	if(failure) throw relocate(failure);
+	yield* drain(false);
+	yield metadata.node(last_end);
+}
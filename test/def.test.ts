@@ -0,0 +1,40 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import type {FGDNode} from '../fgd.ts';
+import {parse} from '../fgd.js';
+import {parse_def} from '../def.js';
+
+const DEF = `/*QUAKED light (0 0.5 1) (-8 -8 -8) (8 8 8) START_OFF x LOUD
+A light.
+"style"	Style
+0)	Normal
+1)	Flicker
+*/
+/*QUAKED func_wall (0 0 0) ?
+*/
+`;
+
+const FGD = `@PointClass size(-8 -8 -8, 8 8 8) color(0 128 255) = light : "A light."
+[
+	spawnflags(flags) =
+	[
+		1 : "START_OFF" : 0
+		4 : "LOUD" : 0
+	]
+	style(choices) : "" : : "Style" = [ 0 : "Normal" 1 : "Flicker" ]
+]
+@SolidClass color(0 0 0) = func_wall []
+`;
+
+/// The nodes without spans, which point into different texts.
+function strip(nodes: Iterable<FGDNode>): unknown {
+	return JSON.parse(JSON.stringify([...nodes], (key, value) => key === 'span' ? undefined : value));
+}
+
+test('.def imports like the equivalent FGD', () => {
+	const imported = [...parse_def('test.def', DEF)];
+	const parsed = [...parse('test.fgd', FGD)];
+	assert.deepEqual(strip(imported), strip(parsed));
+	// `JSON` drops keys that are `undefined`, so check which keys the classes have as well.
+	assert.deepEqual(imported.map(node => Object.keys(node).sort()), parsed.map(node => Object.keys(node).sort()));
+});
@@ -0,0 +1,65 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import type {FGDClassDecl, FGDNode} from '../fgd.ts';
+import {parse} from '../fgd.js';
+import {export_ent, parse_ent} from '../ent.js';
+
+const ENT = `<?xml version="1.0"?>
+<classes>
+	<list name="styles"><item value="0" name="Normal"/><item value="1" name="Flicker"/></list>
+	<point name="light" color="0 0.5 1" box="-8 -8 -8 8 8 8" model="models/light.mdl">A light.
+		<flag key="start_off" name="Start off" bit="0"/>
+		<flag key="loud" name="Loud" bit="2">Makes noise.</flag>
+		<flag key="last" name="Last" bit="31"/>
+		<styles key="style" name="Style" value="0"/>
+		<integer key="health" name="Health." value="10">Damage it takes.</integer>
+		<string key="message" name="The text shown to the player when it is triggered."/>
+		<string key="OnTrigger" name="On trigger"/>
+		<color key="_color" name="Color" value="1 0.5 0"/>
+		<choice key="mode" name="Mode"><item value="a" name="A"/><item value="b" name="B"/></choice>
+	</point>
+	<group name="func_wall">A wall.</group>
+	<point name="nameless_helpers"/>
+	<point name="switch" model="{{ spawnflags &amp; 1 -&gt; &quot;a.mdl&quot;, &quot;b.mdl&quot; }}"/>
+</classes>`;
+
+const FGD = `@PointClass size(-8 -8 -8, 8 8 8) color(0 128 255) model("models/light.mdl") = light : "A light."
+[
+	spawnflags(flags) =
+	[
+		1 : "Start off" : 0
+		4 : "Loud" : 0 : "Makes noise."
+		2147483648 : "Last" : 0
+	]
+	style(choices) : "Style" : "0" = [ 0 : "Normal" 1 : "Flicker" ]
+	health(integer) : "Health." : 10 : "Damage it takes."
+	message(string) : "The text shown to the player when it is triggered."
+	OnTrigger(string) : "On trigger"
+	_color(color255) : "Color" : "255 128 0"
+	mode(choices) : "Mode" = [ "a" : "A" "b" : "B" ]
+]
+@SolidClass = func_wall : "A wall." []
+@PointClass = nameless_helpers []
+@PointClass model({{ spawnflags & 1 -> "a.mdl", "b.mdl" }}) = switch []
+`;
+
+/// The nodes without spans, which point into different texts.
+function strip(nodes: Iterable<FGDNode>): unknown {
+	return JSON.parse(JSON.stringify([...nodes], (key, value) => key === 'span' ? undefined : value));
+}
+
+test('ENT imports like the equivalent FGD', () => {
+	const imported = [...parse_ent('test.ent', ENT)];
+	const parsed = [...parse('test.fgd', FGD)];
+	assert.deepEqual(strip(imported), strip(parsed));
+	// `JSON` drops keys that are `undefined`, so check which keys the classes have as well.
+	assert.deepEqual(imported.map(node => Object.keys(node).sort()), parsed.map(node => Object.keys(node).sort()));
+});
+
+test('ENT export keeps the choices of properties that are not choices', () => {
+	const {xml, warnings} = export_ent(parse('test.fgd', `@PointClass = light [ style(integer) : "Style" : 0 = [ 0 : "Normal" 1 : "Flicker" ] ]`));
+	assert.deepEqual(warnings, []);
+	assert.match(xml, /<choice key="style" name="Style" value="0">\s*<item name="Normal" value="0"\/>\s*<item name="Flicker" value="1"\/>\s*<\/choice>/);
+	const style = (parse_ent('test.ent', xml).next().value as FGDClassDecl).body[0];
+	assert.deepEqual(style.choices, [{id: '0', name: 'Normal'}, {id: '1', name: 'Flicker'}]);
+});
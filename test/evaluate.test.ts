@@ -0,0 +1,15 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {TokenStream, parse_expression} from '../fgd.js';
+import {evaluate} from '../evaluate.js';
+
+function evaluate_text(text: string, scope: Record<string, string> = {}) {
+	return evaluate(parse_expression(new TokenStream('test', text)), scope);
+}
+
+test('a range in brackets is the list of its items, with or without spaces', () => {
+	assert.deepEqual(evaluate_text('[1..3]'), [1, 2, 3]);
+	assert.deepEqual(evaluate_text('[1 .. 3]'), [1, 2, 3]);
+	assert.deepEqual(evaluate_text('[3..1]'), [3, 2, 1]);
+	assert.deepEqual(evaluate_text('[1]'), [1]);
+});
@@ -0,0 +1,80 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import type {FGDParseResult, FGDTextEdit} from '../incremental.ts';
+import {parse_result, reparse} from '../incremental.js';
+import {SAMPLE} from './samples.js';
+
+// Usage: node test/incremental.test.js [seed] [edits]
+//   Applies random edits to the sample and checks every `reparse` against parsing the edited text from scratch.
+
+const SEED = Number(process.argv[2] ?? 1);
+const EDITS = Number(process.argv[3] ?? 500);
+
+/// Pieces of FGD syntax the random edits insert, to break and repair declarations, strings and comments.
+const PIECES = ['@', ']', '[', '"', '// c\n', '\n', 'x', ' ', '@PointClass = a [ ]', ':', '(', ')', 'base(', '{', '}', '=', '+', '"s"',
+	'@SolidClass base(Targetname) = b : "d" [ k(string) : "K" ]\n', '0', '//', '\t'];
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/// The result as JSON, with the random names of nameless classes replaced and the metadata lists sorted after that.
+function normalize(result: FGDParseResult): string {
+	return JSON.stringify(result, (key, value) => {
+		if(typeof value === 'string' && UUID.test(value)) return 'UUID';
+		if(Array.isArray(value) && value.every(item => typeof item === 'string')) return value.map(item => UUID.test(item) ? 'UUID' : item).sort();
+		return value;
+	});
+}
+
+function random(seed: number): (max: number) => number {
+	return max => {
+		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+		return seed % max;
+	};
+}
+
+function random_edit(input: string, next: (max: number) => number): FGDTextEdit {
+	const offset = next(input.length + 1);
+	const deleted = Math.min(next(4) === 0 ? next(60) : next(5), input.length - offset);
+	const inserted = next(3) === 0 ? '' : PIECES[next(PIECES.length)];
+	return {offset, deleted, inserted};
+}
+
+function check_edits(recover: boolean) {
+	const next = random(SEED);
+	let current = parse_result('sample', SAMPLE, recover);
+	for(let idx = 0; idx < EDITS; idx++) {
+		const edit = random_edit(current.input, next);
+		const text = current.input.slice(0, edit.offset) + edit.inserted + current.input.slice(edit.offset + edit.deleted);
+		const context = `edit ${idx} of seed ${SEED}: ${JSON.stringify(edit)}`;
+		let expected: FGDParseResult|undefined;
+		try {
+			expected = parse_result('sample', text, recover);
+		} catch (error) {
+			assert.throws(() => reparse(current, edit), {message: (error as Error).message}, context);
+			// Start over, the edits would only pile up in the broken part.
+			current = parse_result('sample', SAMPLE, recover);
+			continue;
+		}
+		const actual = reparse(current, edit);
+		assert.equal(normalize(actual), normalize(expected), context);
+		current = actual;
+	}
+}
+
+test('reparse matches a full parse after random edits, recovering from errors', () => check_edits(true));
+
+test('reparse matches a full parse after random edits, throwing errors', () => check_edits(false));
+
+test('reparse keeps the declarations before the edit', () => {
+	const previous = parse_result('sample', SAMPLE, true);
+	const offset = SAMPLE.indexOf('\n', SAMPLE.indexOf('@SolidClass'));
+	const result = reparse(previous, {offset, deleted: 0, inserted: '\n'});
+	const decls = previous.nodes.filter(node => node.type !== '__PARSER_METADATA__' && node.span[1] < offset);
+	assert.ok(decls.length > 0);
+	for(const decl of decls) assert.ok(result.nodes.includes(decl));
+});
+
+test('reparse rejects edits outside of the input', () => {
+	const previous = parse_result('sample', SAMPLE);
+	assert.throws(() => reparse(previous, {offset: SAMPLE.length, deleted: 1, inserted: ''}), RangeError);
+});
@@ -0,0 +1,112 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {PassThrough} from 'node:stream';
+import {listen} from '../lsp.js';
+
+const URI = 'file:///test.fgd';
+
+const TEXT = `@BaseClass = Targetname : "Has a name"
+[
+	targetname(target_source) : "Name"
+]
+
+@BaseClass = Angles [ angles(angle) : "Pitch Yaw Roll" ]
+
+@PointClass base(Targetname, Angles) = info_target : "A target"
+[
+	health(integer) : "Health" : 10
+]
+`;
+
+function frame(message: object): string {
+	const body = JSON.stringify(message);
+	return `Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`;
+}
+
+/// Sends `chunks` to a server on streams, then the end of the input, and resolves with the exit code and the messages it wrote.
+async function session(chunks: string[]): Promise<{code: number, messages: any[]}> {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	let written = '';
+	output.on('data', (chunk: Buffer) => written += chunk.toString('utf-8'));
+	const done = listen(input, output);
+	for(const chunk of chunks) input.write(chunk);
+	input.end();
+	const code = await done;
+	
+	const messages = [];
+	while(written.length) {
+		const header_end = written.indexOf('\r\n\r\n');
+		const length = Number(/^Content-Length: (\d+)$/.exec(written.slice(0, header_end))![1]);
+		messages.push(JSON.parse(written.slice(header_end + 4, header_end + 4 + length)));
+		written = written.slice(header_end + 4 + length);
+	}
+	return {code, messages};
+}
+
+/// The framed messages of a client that opens `TEXT`, sends `requests` with the ids 2 and up, and shuts the server down.
+function client(requests: {method: string, params?: object}[]): string[] {
+	return [
+		frame({jsonrpc: '2.0', id: 1, method: 'initialize', params: {capabilities: {}}}),
+		frame({jsonrpc: '2.0', method: 'initialized', params: {}}),
+		frame({jsonrpc: '2.0', method: 'textDocument/didOpen', params: {textDocument: {uri: URI, languageId: 'fgd', version: 1, text: TEXT}}}),
+		...requests.map((request, idx) => frame({jsonrpc: '2.0', id: idx + 2, ...request})),
+		frame({jsonrpc: '2.0', id: 99, method: 'shutdown'}),
+		frame({jsonrpc: '2.0', method: 'exit'}),
+	];
+}
+
+function response(messages: any[], id: number) {
+	const found = messages.find(message => message.id === id);
+	assert.ok(found, `no response to ${id}`);
+	return found;
+}
+
+const at = (line: number, character: number) => ({textDocument: {uri: URI}, position: {line, character}});
+
+test('the server answers requests on framed streams', async () => {
+	const {code, messages} = await session(client([
+		{method: 'textDocument/hover', params: at(7, 20)},
+		{method: 'textDocument/definition', params: at(7, 20)},
+		{method: 'textDocument/completion', params: at(7, 17)},
+		{method: 'textDocument/hover', params: at(9, 3)},
+		{method: 'textDocument/documentSymbol', params: {textDocument: {uri: URI}}},
+	]));
+	assert.equal(code, 0);
+	
+	const initialize = response(messages, 1);
+	assert.equal(initialize.result.serverInfo.name, 'fgdls');
+	assert.equal(initialize.result.capabilities.hoverProvider, true);
+	
+	const published = messages.find(message => message.method === 'textDocument/publishDiagnostics');
+	assert.deepEqual(published?.params, {uri: URI, diagnostics: []});
+	
+	assert.deepEqual(response(messages, 2).result, {
+		contents: {kind: 'markdown', value: '`@BaseClass Targetname`\n\nHas a name'},
+		range: {start: {line: 7, character: 17}, end: {line: 7, character: 27}},
+	});
+	assert.deepEqual(response(messages, 3).result, {uri: URI, range: {start: {line: 0, character: 13}, end: {line: 0, character: 23}}});
+	assert.deepEqual(response(messages, 4).result.map((item: any) => item.label), ['Targetname', 'Angles']);
+	assert.equal(response(messages, 5).result.range.start.line, 9);
+	assert.deepEqual(response(messages, 6).result.map((symbol: any) => symbol.name), ['Targetname', 'Angles', 'info_target']);
+	assert.deepEqual(response(messages, 99).result, null);
+});
+
+test('the server reads messages split across chunks', async () => {
+	const text = client([{method: 'textDocument/definition', params: at(7, 32)}]).join('');
+	const chunks = [];
+	for(let idx = 0; idx < text.length; idx += 7) chunks.push(text.slice(idx, idx + 7));
+	const {code, messages} = await session(chunks);
+	assert.equal(code, 0);
+	assert.deepEqual(response(messages, 2).result, {uri: URI, range: {start: {line: 5, character: 13}, end: {line: 5, character: 19}}});
+});
+
+test('the server reports errors for unknown methods and bad JSON', async () => {
+	const {code, messages} = await session([
+		frame({jsonrpc: '2.0', id: 1, method: 'textDocument/unknown', params: {}}),
+		'Content-Length: 3\r\n\r\n{x}',
+	]);
+	assert.equal(code, 1, 'exiting without a shutdown request is a failure');
+	assert.equal(response(messages, 1).error.code, -32601);
+	assert.equal(response(messages, null as any).error.code, -32700);
+});
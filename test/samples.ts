@@ -0,0 +1,111 @@
+/// FGD text using most of the syntax, with comments, expressions and some odd formatting, shared by the tests.
+export const SAMPLE = `// Sample base definitions
+@version(1)
+@mapsize(-16384, 16384)
+
+// Targetname base
+@BaseClass = Targetname
+[
+	targetname(target_source) : "Name" : : "The name that other entities refer to this entity by."
+	// Kill input
+	input Kill(void) : "Removes this entity from the world."
+	input AddOutput(string) : "Adds an entity I/O connection."
+	output OnUser1(void) : "Fired in response to FireUser1 input"
+]
+
+@BaseClass = Angles [ angles(angle) : "Pitch Yaw Roll (Y Z X)" : "0 0 0" : "This entity's orientation in the world." ]
+
+@BaseClass base(Targetname, Angles) = Door
+[
+	speed(integer) : "Speed" : 100
+	wait(float) : "Delay before reset" : "4.5"
+	rendercolor(color255) : "Render Color" : "255 255 255"
+	spawnflags(flags) =
+	[
+		1 : "Starts Open" : 0
+		256 : "Use Opens" : 1 // most doors
+		512 : "Bad flag" : 0
+	]
+	sounds(choices) : "Sounds" : 0 =
+	[
+		0 : "None"
+		// metal
+		1 : "Metal" // clanky
+	]
+	input Open(void) : "Open the door"
+	input SetSpeed(float) : "Set speed"
+	OnOpen(void) : "Fired when opened"
+]
+@include "base.fgd"
+@MaterialExclusion [ "dev" "tools" ]
+@AutoVisGroup = "Brushes" [ "Triggers" [ "trigger_once", "trigger_multiple" ] ]
+@EntityGroup "Lighting" { start_expanded = true }
+@VisGroupFilter { filter_type = "classname" name = "Lights" }
+
+@SolidClass base(Door) color(0 128 255) = func_door : "A door." +
+	" Moves." [
+	lip(integer) : "Lip" : 8 : "Amount the door stays visible."
+	model(studio) [ group="Render" report ] : "World model" : "models/door.mdl"
+	health(integer) readonly : "Health" : 0
+	skin(integer) { min = "0" max = "10" } : "Skin" : 0
+]
+
+@PointClass base(Targetname, Angles) size(-16 -16 -24, 16 16 32) color(255 0 0) studio("models/player.mdl") iconsprite("editor/x.vmt") = info_player_start : "Player start"
+[
+	customprop(*string) : "Custom"
+]
+
+@PointClass base(Targetname) model({{ type == "paint" -> { "path": "models/paint.md2", "skin": skin }, spawnflags & 1 -> "models/a.md2", "models/b.md2" }}) = item_paint : "Paint item"
+[
+	type(choices) : "Type" : "paint" = [ "paint" : "Paint" "ink" : "Ink" ]
+	skin(integer) : "Skin" : 0
+]
+
+@Exclude func_old
+// Header
+
+// Doc for A
+// second line
+@PointClass = a : "A" // trailing A
+[
+	// doc x
+	x(string) : "X" // trail x
+	y(choices) : "Y" : 0 = // not attached
+	[
+		// zero
+		0 : "zero" // trail zero
+		1 : "one"
+		
+		// after blank
+		2 : "two"
+	] // y
+	z(string) // trail z
+	// dangling
+] // end a
+// doc b
+@PointClass = b []@PointClass tags(Foo, Bar) halfgridsnap sphere(radius) line(255 255 255, targetname, target) metadata { auto_apply = true nested = { a = "1" } list = [ "x", "y" ] } = edge : "Line one" + "Line 'two'" + 'say "hi"'
+[
+	a(string) : "Short"
+	b(string) : "" : : "Short desc"
+	c(string) : "This is a very long description that should have been a description."
+	d(integer) : "D" : -5 : "Neg"
+	e(string) [ !hidden, editor_only = "yes" ] { custom = { x = "1" } } : "E"
+	f(choices) : "F" : "a b" = [ "a b" : "AB" : "x" : "AB desc" 2 : "two" ]
+	g(sound) report readonly : "G"
+	h(string) : "H" : { "path": x }
+	input In(integer) : "In"
+	OnOut(void)
+	i(boolean) : "I" : 1 + 2 * (3 - x) : "Expr default"
+	j(tag_list) : "Tags" : "a" = [ "a" : "A" : 1 ]
+	k(string) : "K" : "" : "empty default"
+]
+@PointClass model({{ !x -> y[1], -x -> "a", ~1 | 2 >> 1 -> {"path": "p/q.mdl", "frame": 2 + n}, "def.mdl" }}) = ex2 []
+@Struct = st []
+@BaseClass=Targetname[targetname(target_source):"Name"input Kill(void):"Kill it now please thanks."]
+@PointClass base( Targetname ) size( -8 -8 -8 , 8 8 8 )model({{spawnflags&1->"a.mdl","b.mdl"}})=thing:"Thing"+"more"[
+  spawnflags(flags)=[1:"A":0 2:"B":1]
+      health(integer)  :  "Health"  :  10 : "HP"
+  kind(choices):"Kind":0=[0:"zero"
+  1:"one"]]
+@VisGroupFilter { filter_type = "classname" name = "Lights" }
+`;
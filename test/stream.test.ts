@@ -0,0 +1,104 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import type {FGDNode} from '../fgd.ts';
+import type {FGDDiagnostic} from '../errors.ts';
+import {parse} from '../fgd.js';
+import {FGDIncompleteInputError, FGDParseError} from '../errors.js';
+import {parse_stream} from '../stream.js';
+import {SAMPLE} from './samples.js';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/// The nodes as JSON, with the random names of nameless classes replaced and the metadata lists sorted after that.
+function normalize(nodes: FGDNode[]): string {
+	return JSON.stringify(nodes, (key, value) => {
+		if(typeof value === 'string' && UUID.test(value)) return 'UUID';
+		if(Array.isArray(value) && value.every(item => typeof item === 'string')) return value.map(item => UUID.test(item) ? 'UUID' : item).sort();
+		return value;
+	});
+}
+
+/// `input` cut at each of `offsets`.
+function split<T extends string|Uint8Array>(input: T, offsets: number[]): T[] {
+	const cuts = [0, ...offsets, input.length];
+	return cuts.slice(1).map((end, idx) => input.slice(cuts[idx], end) as T);
+}
+
+async function collect(chunks: (string|Uint8Array)[], diagnostics?: FGDDiagnostic[]): Promise<FGDNode[]> {
+	async function* source() {
+		yield* chunks;
+	}
+	const nodes = [];
+	for await (const node of parse_stream('sample', source(), {diagnostics})) nodes.push(node);
+	return nodes;
+}
+
+/// The offset just after the first `after` that follows `before` in the sample.
+function inside(before: string, after: string): number {
+	const offset = SAMPLE.indexOf(after, SAMPLE.indexOf(before));
+	assert.ok(offset !== -1, `"${after}" after "${before}"`);
+	return offset + after.length;
+}
+
+test('chunks split inside a string, a comment and a concatenation parse like the whole text', async () => {
+	const offsets = [
+		inside('input Kill', '"Removes'),
+		inside('Use Opens', '// most'),
+		inside('"A door."', ' +'),
+		inside('"A door."', '+\n'),
+	].sort((a, b) => a - b);
+	assert.equal(normalize(await collect(split(SAMPLE, offsets))), normalize([...parse('sample', SAMPLE)]));
+});
+
+test('chunks of every size parse like the whole text', async () => {
+	const expected = normalize([...parse('sample', SAMPLE)]);
+	for(const size of [1, 2, 3, 5, 16, 100]) {
+		const offsets = [];
+		for(let offset = size; offset < SAMPLE.length; offset += size) offsets.push(offset);
+		assert.equal(normalize(await collect(split(SAMPLE, offsets))), expected, `chunks of ${size}`);
+	}
+});
+
+test('byte chunks split inside a character parse like the whole text', async () => {
+	const text = '@PointClass = cafe_marker : "Café ☕" []\n' + SAMPLE;
+	const bytes = new TextEncoder().encode(text);
+	// In the middle of the two bytes of `é` and the three bytes of `☕`, and then every 50 bytes.
+	const char = Buffer.byteLength(text.slice(0, text.indexOf('é')));
+	const offsets = [char + 1, char + 4, char + 5];
+	for(let offset = 50; offset < bytes.length; offset += 50) offsets.push(offset);
+	assert.equal(normalize(await collect(split(bytes, offsets))), normalize([...parse('sample', text)]));
+});
+
+test('errors are reported like the whole text', async () => {
+	const text = SAMPLE.replace('"Lip" : 8', '"Lip" : 8 :: ]');
+	const expected: FGDDiagnostic[] = [];
+	const nodes = [...parse('sample', text, {diagnostics: expected})];
+	assert.ok(expected.length > 0);
+	const actual: FGDDiagnostic[] = [];
+	assert.equal(normalize(await collect(split(text, [inside('"Lip"', ': 8 :'), inside('"World model"', '"models')]), actual)), normalize(nodes));
+	assert.deepEqual(actual.map(({code, span}) => ({code, span})), expected.map(({code, span}) => ({code, span})));
+	
+	let thrown: unknown;
+	try {
+		[...parse('sample', text)];
+	} catch (error) {
+		thrown = error;
+	}
+	assert.ok(thrown instanceof FGDParseError);
+	await assert.rejects(collect(split(text, [100, 1000])), {code: thrown.code, span: thrown.span, message: thrown.message});
+});
+
+test('partial input throws at its end instead of reaching it', () => {
+	const end = inside('"A door."', '+');
+	assert.throws(() => [...parse('sample', SAMPLE.slice(0, end), {partial: true})], FGDIncompleteInputError);
+	assert.throws(() => [...parse('sample', SAMPLE.slice(0, inside('input Kill', '"Removes')), {partial: true})], FGDIncompleteInputError);
+	
+	// The declarations before the end are complete.
+	const nodes: FGDNode[] = [];
+	assert.throws(() => {
+		for(const node of parse('sample', SAMPLE.slice(0, end), {partial: true})) nodes.push(node);
+	}, FGDIncompleteInputError);
+	const door = SAMPLE.indexOf('@SolidClass base(Door)');
+	const complete = [...parse('sample', SAMPLE)].filter(node => node.type !== '__PARSER_METADATA__' && node.span[1] <= door);
+	assert.equal(normalize(nodes), normalize(complete));
+});
@@ -0,0 +1,24 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import type {FGDClassDecl} from '../fgd.ts';
+import {parse} from '../fgd.js';
+import {type_values} from '../values.js';
+
+test('defaults of numeric choices that are not one of them are reported', () => {
+	const nodes = [...parse('test.fgd', `@PointClass = a
+	[
+		word(choices) : "Word" : "abc" = [ 0 : "Normal" 1 : "Flicker" ]
+		empty(choices) : "Empty" : "" = [ 0 : "Normal" 1 : "Flicker" ]
+		missing(choices) : "Missing" : 2 = [ 0 : "Normal" 1 : "Flicker" ]
+		fine(choices) : "Fine" : "1" = [ 0 : "Normal" 1 : "Flicker" ]
+	]`)];
+	const diagnostics = type_values(nodes);
+	assert.deepEqual(diagnostics.map(diagnostic => diagnostic.message), [
+		'Default "abc" of "a.word" is not a valid choices value.',
+		'Default "" of "a.empty" is not a valid choices value.',
+		'Default "2" of "a.missing" is not a valid choices value.',
+	]);
+	const props = (nodes[0] as FGDClassDecl).body;
+	assert.deepEqual(props.map(prop => prop.typed?.value), [undefined, undefined, undefined, 1]);
+	assert.deepEqual(props[0].choices!.map(choice => choice.typed.value), [0, 1]);
+});
@@ -0,0 +1,122 @@
+import type {FGDNode, FGDPropDecl} from './fgd.ts';
+import type {FGDDiagnostic} from './errors.ts';
+import {resolve_bases, type FGDInheritance} from './inherit.js';
+
+/// An entity read from a map file, in a form that doesn't depend on the map format.
+export interface FGDEntity {
+	span: [number, number],
+	file?: string,
+	/// Key/value pairs in file order.
+	keys: FGDEntityKey[],
+	/// Number of brushes (or patches) the entity owns.
+	brushes: number,
+}
+
+export interface FGDEntityKey {
+	key: string,
+	value: string,
+	span: [number, number],
+}
+
+export interface FGDValidateOptions {
+	/// Keys that are never reported as unknown; `classname`, `origin`, `spawnflags` and `mapversion` by default.
+	implicit_keys?: Iterable<string>,
+	/// Keys starting with one of these prefixes are never reported as unknown; `_tb_` (TrenchBroom's layers and groups) by default.
+	implicit_prefixes?: string[],
+}
+
+export const IMPLICIT_KEYS = ['classname', 'origin', 'spawnflags', 'mapversion'];
+const IMPLICIT_PREFIXES = ['_tb_'];
+const INTEGER = /^[-+]?\d+$/;
+
+/// The last value of `key` (compared case-insensitively), like the game would see it.
+export function entity_value(entity: FGDEntity, key: string): string|undefined {
+	key = key.toLowerCase();
+	for(let idx = entity.keys.length - 1; idx >= 0; idx--) {
+		if(entity.keys[idx].key.toLowerCase() === key) return entity.keys[idx].value;
+	}
+	return undefined;
+}
+
+function choice_matches(decl: FGDPropDecl, value: string): boolean {
+	return decl.choices!.some(choice => {
+		const id = String(choice.id);
+		return id === value || (INTEGER.test(id) && INTEGER.test(value) && Number(id) === Number(value));
+	});
+}
+
+/// Checks one entity against the classes of an FGD. Reports:
+/// - `missing-classname` and `unknown-class` (errors), and `base-class` if the entity uses a `@BaseClass`.
+/// - `class-mismatch` if a `@SolidClass` entity has no brushes or any other class has some.
+/// - `unknown-key` for keys the class doesn't declare, `invalid-choice` for values that aren't one of a `choices` property's ids,
+///   and `undeclared-flags` for set bits of a `flags` property that have no choice.
+export function validate_entity(entity: FGDEntity, inheritance: FGDInheritance, options: FGDValidateOptions = {}): FGDDiagnostic[] {
+	const diagnostics: FGDDiagnostic[] = [];
+	const report = (severity: FGDDiagnostic['severity'], code: string, message: string, span: [number, number] = entity.span) => {
+		diagnostics.push({severity, code, message, file: entity.file, span});
+	};
+	
+	const classname = entity_value(entity, 'classname');
+	if(classname === undefined) {
+		report('error', 'missing-classname', `Entity has no classname.`);
+		return diagnostics;
+	}
+	const resolved = inheritance.classes.get(classname.toLowerCase());
+	if(!resolved) {
+		report('error', 'unknown-class', `Unknown entity class "${classname}".`);
+		return diagnostics;
+	}
+	
+	const kind = resolved.decl.kind.toLowerCase();
+	if(kind === 'baseclass') {
+		report('warning', 'base-class', `"${classname}" is a base class and can't be placed.`);
+	} else if(kind === 'solidclass' && entity.brushes === 0) {
+		report('warning', 'class-mismatch', `"${classname}" is a solid class, but the entity has no brushes.`);
+	} else if(kind !== 'solidclass' && entity.brushes > 0) {
+		report('warning', 'class-mismatch', `"${classname}" is a point class, but the entity has ${entity.brushes} brush${entity.brushes === 1 ? '' : 'es'}.`);
+	}
+	
+	const props = new Map<string, FGDPropDecl>();
+	for(const {decl} of resolved.props) {
+		props.set(decl.name.toLowerCase(), decl);
+	}
+	const implicit = new Set([...(options.implicit_keys ?? IMPLICIT_KEYS)].map(key => key.toLowerCase()));
+	const prefixes = options.implicit_prefixes ?? IMPLICIT_PREFIXES;
+	
+	for(const {key, value, span} of entity.keys) {
+		const lower = key.toLowerCase();
+		const decl = props.get(lower);
+		if(!decl) {
+			if(!implicit.has(lower) && !prefixes.some(prefix => lower.startsWith(prefix))) {
+				report('warning', 'unknown-key', `"${classname}" doesn't declare the key "${key}".`, span);
+			}
+			if(lower !== 'spawnflags' || !INTEGER.test(value) || Number(value) === 0) continue;
+			report('warning', 'undeclared-flags', `"${classname}" declares no spawnflags, but the entity sets ${value}.`, span);
+			continue;
+		}
+		if(!decl.choices) continue;
+		
+		const cls = decl.class.toLowerCase();
+		if(cls === 'choices' && !choice_matches(decl, value)) {
+			report('warning', 'invalid-choice', `"${value}" is not one of the choices of "${classname}.${decl.name}".`, span);
+		} else if(cls === 'flags' && INTEGER.test(value)) {
+			let mask = 0;
+			for(const choice of decl.choices) mask |= Number(choice.id);
+			const extra = Number(value) & ~mask;
+			if(extra) {
+				report('warning', 'undeclared-flags', `"${classname}.${decl.name}" sets bits ${extra} that aren't declared.`, span);
+			}
+		}
+	}
+	return diagnostics;
+}
+
+/// Validates every entity against the classes declared in `nodes`.
+export function validate_entities(entities: Iterable<FGDEntity>, nodes: Iterable<FGDNode>, options: FGDValidateOptions = {}): FGDDiagnostic[] {
+	const inheritance = resolve_bases(nodes);
+	const diagnostics: FGDDiagnostic[] = [];
+	for(const entity of entities) {
+		diagnostics.push(...validate_entity(entity, inheritance, options));
+	}
+	return diagnostics;
+}
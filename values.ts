@@ -0,0 +1,123 @@
+import type {FGDNode, FGDPropDecl} from './fgd.ts';
+import type {FGDDiagnostic} from './errors.ts';
+
+export type FGDValue = string | number | boolean | number[];
+
+export interface FGDTypedValue {
+	/// The text as written in the FGD.
+	raw: string,
+	value: FGDValue,
+}
+
+const INTEGER = /^[-+]?\d+$/;
+const FLOAT = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+function numbers(raw: string, count: number[], integer: boolean): number[]|undefined {
+	const parts = raw.trim().split(/\s+/);
+	if(!count.includes(parts.length)) return undefined;
+	const values: number[] = [];
+	for(const part of parts) {
+		if(!(integer ? INTEGER : FLOAT).test(part)) return undefined;
+		values.push(Number(part));
+	}
+	return values;
+}
+
+/// What a property class holds, as far as value typing is concerned.
+export function value_kind(cls: string): "integer"|"float"|"boolean"|"color255"|"color1"|"vector"|"string" {
+	switch(cls.toLowerCase()) {
+		case 'integer': case 'int': case 'flags': case 'node_dest': case 'node_id':
+			return 'integer';
+		case 'float': case 'angle_negative_pitch':
+			return 'float';
+		case 'boolean': case 'bool':
+			return 'boolean';
+		case 'color255':
+			return 'color255';
+		case 'color1':
+			return 'color1';
+		case 'vector': case 'origin': case 'vecline': case 'angle': case 'qangle': case 'local_point':
+			return 'vector';
+		default:
+			return 'string';
+	}
+}
+
+/// Converts the raw text of a value to the type its property class calls for, or returns `undefined` if it does not fit.
+export function type_value(cls: string, raw: string): FGDValue|undefined {
+	switch(value_kind(cls)) {
+		case 'integer':
+			return INTEGER.test(raw.trim()) ? Number(raw) : undefined;
+		case 'float':
+			return FLOAT.test(raw.trim()) ? Number(raw) : undefined;
+		case 'boolean':
+			switch(raw.trim().toLowerCase()) {
+				case '1': case 'true': case 'yes': return true;
+				case '0': case 'false': case 'no': return false;
+				default: return undefined;
+			}
+		case 'color255': {
+			// The optional fourth component is a brightness, which is not limited to 255.
+			const rgba = numbers(raw, [3, 4], true);
+			if(!rgba || rgba.slice(0, 3).some(c => c < 0 || c > 255)) return undefined;
+			return rgba;
+		}
+		case 'color1': {
+			const rgba = numbers(raw, [3, 4], false);
+			if(!rgba || rgba.slice(0, 3).some(c => c < 0 || c > 1)) return undefined;
+			return rgba;
+		}
+		case 'vector':
+			return numbers(raw, [3], false);
+		case 'string':
+			return raw;
+	}
+}
+
+function type_choice_id(decl: FGDPropDecl, raw: string): FGDValue|undefined {
+	if(decl.class === 'choices') {
+		// The ids of a `choices` list are numbers if all of them are, strings otherwise.
+		const numeric = decl.choices!.every(choice => FLOAT.test(String(choice.id)));
+		if(!numeric) return raw;
+		if(!FLOAT.test(raw.trim())) return undefined;
+		const value = Number(raw);
+		return decl.choices!.some(choice => Number(choice.id) === value) ? value : undefined;
+	}
+	if(decl.class === 'tag_list') return raw;
+	return type_value(decl.class, raw);
+}
+
+/// Annotates every property default and choice id with its typed value (`typed`),
+/// and reports the ones that don't fit their property class.
+export function type_values(nodes: Iterable<FGDNode>): FGDDiagnostic[] {
+	const diagnostics: FGDDiagnostic[] = [];
+	for(const node of nodes) {
+		if(node.type !== 'Class') continue;
+		for(const decl of node.body) {
+			const report = (message: string) => diagnostics.push({
+				severity: 'warning', code: 'value-mismatch', message, file: node.file, span: decl.span
+			});
+			
+			if(typeof decl.default === 'string') {
+				const raw = decl.default;
+				const value = decl.choices ? type_choice_id(decl, raw) : type_value(decl.class, raw);
+				if(value === undefined) {
+					report(`Default "${raw}" of "${node.name}.${decl.name}" is not a valid ${decl.class} value.`);
+				} else {
+					decl.typed = {raw, value};
+				}
+			}
+			
+			for(const choice of decl.choices ?? []) {
+				const raw = String(choice.id);
+				const value = type_choice_id(decl, raw);
+				if(value === undefined) {
+					report(`Choice "${raw}" of "${node.name}.${decl.name}" is not a valid ${decl.class} value.`);
+				} else {
+					choice.typed = {raw, value};
+				}
+			}
+		}
+	}
+	return diagnostics;
+}
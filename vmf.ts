@@ -0,0 +1,239 @@
+import type {FGDNode, FGDPropDecl} from './fgd.ts';
+import {FGDParseError, type FGDDiagnostic} from './errors.js';
+import {resolve_bases, type FGDResolvedClass} from './inherit.js';
+import {validate_entity, entity_value, IMPLICIT_KEYS, type FGDEntity, type FGDValidateOptions} from './validate.js';
+
+/// A KeyValues pair; blocks have a list of children as their value.
+export interface FGDKeyValue {
+	key: string,
+	value: string | FGDKeyValue[],
+	span: [number, number],
+}
+
+export interface FGDConnection {
+	output: string,
+	target: string,
+	input: string,
+	parameter: string,
+	delay: string,
+	times: string,
+	span: [number, number],
+}
+
+export interface FGDVMFEntity extends FGDEntity {
+	connections: FGDConnection[],
+}
+
+const INTEGER = /^[-+]?\d+$/;
+const FLOAT = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/// Reads a Valve KeyValues file (as used by `.vmf`): quoted or bare keys, each followed by a quoted value or a `{ ... }` block.
+export function parse_keyvalues(input: string, name: string = ''): FGDKeyValue[] {
+	let idx = 0;
+	
+	const error = (code: 'unexpected-token'|'unexpected-eof'|'unterminated-string', reason: string, span: [number, number]) => {
+		return new FGDParseError(code, reason, {file: name, input, span});
+	};
+	
+	const skip = () => {
+		while(idx < input.length) {
+			if(/\s/.test(input[idx])) {
+				idx++;
+			} else if(input.startsWith('//', idx)) {
+				const end = input.indexOf('\n', idx);
+				idx = end === -1 ? input.length : end;
+			} else {
+				break;
+			}
+		}
+	};
+	
+	/// Reads a quoted or bare string, or returns `undefined` at a brace or EOF.
+	const word = (): string|undefined => {
+		skip();
+		if(idx >= input.length || input[idx] === '{' || input[idx] === '}') return undefined;
+		const start = idx;
+		if(input[idx] === '"') {
+			const end = input.indexOf('"', idx + 1);
+			if(end === -1) throw error('unterminated-string', `Unterminated string.`, [start, input.length]);
+			idx = end + 1;
+			return input.slice(start + 1, end);
+		}
+		while(idx < input.length && !/[\s{}"]/.test(input[idx])) idx++;
+		return input.slice(start, idx);
+	};
+	
+	const block = (depth: number): FGDKeyValue[] => {
+		const items: FGDKeyValue[] = [];
+		for(;;) {
+			skip();
+			if(idx >= input.length) {
+				if(depth > 0) throw error('unexpected-eof', `Expected "}", but reached EOF.`, [idx, idx]);
+				return items;
+			}
+			if(input[idx] === '}') {
+				if(depth === 0) throw error('unexpected-token', `Unexpected "}".`, [idx, idx + 1]);
+				idx++;
+				return items;
+			}
+			const start = idx;
+			const key = word();
+			if(key === undefined) throw error('unexpected-token', `Expected a key, but got "${input[idx]}".`, [idx, idx + 1]);
+			skip();
+			if(input[idx] === '{') {
+				idx++;
+				const children = block(depth + 1);
+				items.push({key, value: children, span: [start, idx]});
+				continue;
+			}
+			const value = word();
+			if(value === undefined) {
+				throw error(idx < input.length ? 'unexpected-token' : 'unexpected-eof', `Expected a value or block for "${key}".`, [idx, Math.min(idx + 1, input.length)]);
+			}
+			items.push({key, value, span: [start, idx]});
+		}
+	};
+	
+	return block(0);
+}
+
+/// Splits a connection value, which is separated by commas in older files and by ESC characters in newer ones.
+export function parse_connection(output: string, value: string, span: [number, number]): FGDConnection|undefined {
+	const parts = value.split(value.includes('\x1b') ? '\x1b' : ',');
+	if(parts.length < 5) return undefined;
+	const [target, input, parameter, delay, times] = parts.length === 5 ? parts : [
+		// Old-style parameters may contain commas themselves.
+		parts[0], parts[1], parts.slice(2, -2).join(','), parts[parts.length - 2], parts[parts.length - 1]
+	];
+	return {output, target, input, parameter, delay, times, span};
+}
+
+/// Reads the entities (including the world and hidden entities) of a `.vmf` file.
+/// Malformed `connections` entries are kept with an empty `target` and the raw value as `parameter`, so that the validator can report them.
+export function parse_vmf(input: string, name: string = ''): FGDVMFEntity[] {
+	const entities: FGDVMFEntity[] = [];
+	const visit = (items: FGDKeyValue[]) => {
+		for(const item of items) {
+			if(typeof item.value === 'string') continue;
+			const key = item.key.toLowerCase();
+			if(key === 'hidden') {
+				visit(item.value);
+			} else if(key === 'world' || key === 'entity') {
+				entities.push(vmf_entity(item, item.value, name));
+			}
+		}
+	};
+	visit(parse_keyvalues(input, name));
+	return entities;
+}
+
+function vmf_entity(item: FGDKeyValue, children: FGDKeyValue[], name: string): FGDVMFEntity {
+	const entity: FGDVMFEntity = {span: item.span, file: name || undefined, keys: [], brushes: 0, connections: []};
+	for(const child of children) {
+		if(typeof child.value === 'string') {
+			entity.keys.push({key: child.key, value: child.value, span: child.span});
+			continue;
+		}
+		switch(child.key.toLowerCase()) {
+			case 'solid':
+				entity.brushes++;
+				break;
+			case 'hidden':
+				entity.brushes += child.value.filter(solid => solid.key.toLowerCase() === 'solid').length;
+				break;
+			case 'connections':
+				for(const conn of child.value) {
+					if(typeof conn.value !== 'string') continue;
+					entity.connections.push(parse_connection(conn.key, conn.value, conn.span)
+						?? {output: conn.key, target: '', input: '', parameter: conn.value, delay: '', times: '', span: conn.span});
+				}
+				break;
+		}
+	}
+	return entity;
+}
+
+function find(list: {decl: FGDPropDecl}[], name: string): FGDPropDecl|undefined {
+	name = name.toLowerCase();
+	return list.find(({decl}) => decl.name.toLowerCase() === name)?.decl;
+}
+
+/// Whether a parameter can be passed to an input of the given type.
+function fits_input(type: string, parameter: string): boolean {
+	switch(type.toLowerCase()) {
+		case 'void': return parameter === '';
+		case 'integer': return INTEGER.test(parameter.trim());
+		case 'float': return FLOAT.test(parameter.trim());
+		case 'bool': return ['0', '1', 'true', 'false'].includes(parameter.trim().toLowerCase());
+		default: return true;
+	}
+}
+
+/// Validates the entities of a `.vmf` file like `validate_entity`, and checks every `connections` entry:
+/// - `invalid-connection` if it doesn't have the five fields `target,input,parameter,delay,times`,
+/// - `unknown-output` if the source class has no such output,
+/// - `unknown-target` if no entity has the target's name (targets starting with `!` are not resolved, and `*` matches any suffix),
+/// - `unknown-input` if a target entity's class has no such input,
+/// - `invalid-parameter` if the parameter doesn't fit the type of the input (`void`, `integer`, `float` or `bool`).
+export function validate_vmf(entities: FGDVMFEntity[], nodes: Iterable<FGDNode>, options: FGDValidateOptions = {}): FGDDiagnostic[] {
+	const inheritance = resolve_bases(nodes);
+	const diagnostics: FGDDiagnostic[] = [];
+	const entity_options: FGDValidateOptions = {...options, implicit_keys: [...(options.implicit_keys ?? IMPLICIT_KEYS), 'id']};
+	
+	const class_of = (entity: FGDEntity): FGDResolvedClass|undefined => {
+		const classname = entity_value(entity, 'classname');
+		return classname === undefined ? undefined : inheritance.classes.get(classname.toLowerCase());
+	};
+	const targets = (target: string): FGDVMFEntity[] => {
+		target = target.toLowerCase();
+		const wildcard = target.endsWith('*');
+		const prefix = wildcard ? target.slice(0, -1) : target;
+		return entities.filter(entity => {
+			for(const key of ['targetname', 'classname']) {
+				const name = entity_value(entity, key)?.toLowerCase();
+				if(name !== undefined && (wildcard ? name.startsWith(prefix) : name === target)) return true;
+			}
+			return false;
+		});
+	};
+	
+	for(const entity of entities) {
+		diagnostics.push(...validate_entity(entity, inheritance, entity_options));
+		const source = class_of(entity);
+		const classname = entity_value(entity, 'classname');
+		
+		for(const conn of entity.connections) {
+			const report = (code: string, message: string) => {
+				diagnostics.push({severity: 'warning', code, message, file: entity.file, span: conn.span});
+			};
+			if(!conn.target) {
+				report('invalid-connection', `Connection "${conn.output}" of "${classname}" is malformed: "${conn.parameter}".`);
+				continue;
+			}
+			if(source && !find(source.outputs, conn.output)) {
+				report('unknown-output', `"${classname}" has no output "${conn.output}".`);
+			}
+			if(conn.target.startsWith('!')) continue;
+			
+			const matches = targets(conn.target);
+			if(matches.length === 0) {
+				report('unknown-target', `Output "${conn.output}" of "${classname}" targets "${conn.target}", but no entity has that name.`);
+				continue;
+			}
+			const checked = new Set<FGDResolvedClass>();
+			for(const target of matches) {
+				const resolved = class_of(target);
+				if(!resolved || checked.has(resolved)) continue;
+				checked.add(resolved);
+				
+				const input = find(resolved.inputs, conn.input);
+				if(!input) {
+					report('unknown-input', `"${resolved.decl.name}" ("${conn.target}") has no input "${conn.input}".`);
+				} else if(conn.parameter !== '' && !fits_input(input.class, conn.parameter)) {
+					report('invalid-parameter', `Input "${resolved.decl.name}.${input.name}" takes ${input.class}, but gets "${conn.parameter}".`);
+				}
+			}
+		}
+	}
+	return diagnostics;
+}
@@ -0,0 +1,231 @@
+import type {FGDNode, FGDClassDecl, FGDClassBaseDecl, FGDPropDecl, FGDTBExpr, FGDComments} from './fgd.ts';
+import {looks_like_description} from './fgd.js';
+
+// NOTE: The parser keeps the text of string, ident and number tokens alike, without recording which one it was.
+//       The writer quotes everything that would not survive as a bare token, which always parses back to the same AST.
+
+const IDENT = /^[a-z_][a-z\d_\-/.]*$/i;
+const WORD = /^[a-z_]\w*$/i;
+const NUMBER = /^-?\d[\d.]*$/;
+const UUID = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i;
+
+export function write_quoted(value: string): string {
+	if(/(^|[^\\])"/.test(value) && !value.includes("'")) return `'${value}'`;
+	return `"${value}"`;
+}
+
+/// Writes a string that is parsed with `TokenStream.literal`, splitting lines into `+` concatenations.
+export function write_literal(value: string, indent: string = ''): string {
+	return value.split('\n').map(write_quoted).join(` +\n${indent}\t`);
+}
+
+/// Writes a single token: numbers and (unless `quote` is set) identifiers are left bare.
+export function write_value(value: string, quote: boolean = false): string {
+	if(NUMBER.test(value)) return value;
+	if(!quote && IDENT.test(value)) return value;
+	return write_quoted(value);
+}
+
+export function write_leading_comments(comments: FGDComments|undefined, indent: string = ''): string {
+	return (comments?.leading ?? []).map(line => `${indent}// ${line}\n`).join('');
+}
+
+export function write_trailing_comment(comments: FGDComments|undefined): string {
+	return comments?.trailing !== undefined ? ` // ${comments.trailing}` : '';
+}
+
+export function write_record(record: Record<string, any>): string {
+	const items = Object.entries(record).map(([key, value]) => {
+		if(value === true) return key;
+		return `${key} = ${write_record_value(value)}`;
+	});
+	return items.length ? `{ ${items.join(', ')} }` : '{}';
+}
+
+function write_record_value(value: any): string {
+	if(Array.isArray(value)) return `[${value.map(write_record_value).join(', ')}]`;
+	if(typeof value === 'object' && value !== null) return write_record(value);
+	return write_quoted(String(value));
+}
+
+export function write_expr(expr: string|FGDTBExpr|Array<string|FGDTBExpr>|null|undefined, quote: boolean = false): string {
+	if(expr === null || expr === undefined) return '';
+	if(typeof expr === 'string') return NUMBER.test(expr) || (!quote && WORD.test(expr)) ? expr : write_quoted(expr);
+	if(Array.isArray(expr)) return expr.map(item => write_expr(item, quote)).join(', ');
+	
+	switch(expr.expr) {
+		case 'unary': switch(expr.op) {
+			case '{{}}': {
+				const cases = (Array.isArray(expr.rhs) ? expr.rhs : [expr.rhs]).map(item => write_expr(item, true));
+				if(expr.lhs !== undefined) cases.push(write_expr(expr.lhs as string, true));
+				return `{{ ${cases.join(', ')} }}`;
+			}
+			case '{}': {
+				const entries = (Array.isArray(expr.rhs) ? expr.rhs : [expr.rhs]).map(entry => {
+					if(typeof entry === 'string') return write_quoted(entry);
+					return `${write_expr(entry.lhs as string, true)}: ${write_expr(entry.rhs)}`;
+				});
+				return `{ ${entries.join(', ')} }`;
+			}
+			case '()': return `(${write_expr(expr.rhs)})`;
+			case '[]': return `[${write_expr(expr.rhs)}]`;
+			default: {
+				const rhs = write_expr(expr.rhs);
+				return expr.op === '-' && /^[\d.]/.test(rhs) ? `${expr.op} ${rhs}` : `${expr.op}${rhs}`;
+			}
+		}
+		case 'postfix': return `${write_expr(expr.lhs)}[${write_expr(expr.rhs)}]`;
+		case 'infix': {
+			// The right hand side of a comparison or case is a value, not a key.
+			const quote = ['==', '!=', '->'].includes(expr.op);
+			return `${write_expr(expr.lhs)} ${expr.op} ${write_expr(expr.rhs, quote)}`;
+		}
+		default: return write_expr(expr.rhs);
+	}
+}
+
+export function write_class_base(base: FGDClassBaseDecl): string {
+	const {name, args} = base;
+	if(typeof args === 'string') {
+		return `${name}(${write_value(args, args.includes('/') || args.includes('.'))})`;
+	}
+	if(!Array.isArray(args)) {
+		return `${name} ${write_record(args)}`;
+	}
+	if(args.length === 0) {
+		return name;
+	}
+	
+	// Numbers are grouped into tuples of up to three, e.g. `size(-16 -16 0, 16 16 32)`.
+	const parts: string[] = [];
+	let tuple: string[] = [];
+	for(const arg of args) {
+		if(typeof arg === 'string' && NUMBER.test(arg)) {
+			tuple.push(arg);
+			if(tuple.length === 3) parts.push(tuple.splice(0).join(' '));
+			continue;
+		}
+		if(tuple.length) parts.push(tuple.splice(0).join(' '));
+		parts.push(typeof arg === 'string' ? write_value(arg, arg.includes('/')) : write_expr(arg));
+	}
+	if(tuple.length) parts.push(tuple.join(' '));
+	return `${name}(${parts.join(', ')})`;
+}
+
+export function write_prop(decl: FGDPropDecl, indent: string = '\t'): string {
+	let out = write_leading_comments(decl.comments, indent) + indent;
+	if(decl.kind !== 'prop') out += decl.kind + ' ';
+	out += decl.name;
+	out += `(${decl.star ? '*' : ''}${decl.class})`;
+	
+	const metaprops = {...decl.metaprops};
+	for(const key of ['readonly', 'report']) {
+		if(metaprops[key] === true) {
+			out += ' ' + key;
+			delete metaprops[key];
+		}
+	}
+	
+	const bracket: string[] = [];
+	const flag = (key: string, value: any) => bracket.push(value === true ? key : `${key} = ${write_quoted(String(value))}`);
+	if(decl.report) flag('report', decl.report);
+	if(decl.readonly) flag('readonly', decl.readonly);
+	if(decl.important) flag('important', decl.important);
+	if(decl.group) flag('group', decl.group);
+	for(const [key, value] of Object.entries(metaprops)) {
+		if(['report', 'readonly', 'important', 'group'].includes(key)) continue;
+		if(!IDENT.test(key.replace(/^!/, ''))) continue;
+		if(value !== true && typeof value !== 'string') continue;
+		flag(key, value);
+		delete metaprops[key];
+	}
+	if(bracket.length) out += ` [${bracket.join(', ')}]`;
+	if(Object.keys(metaprops).length) out += ' ' + write_record(metaprops);
+	
+	const has_default = decl.default !== null && decl.default !== undefined;
+	if(decl.title || has_default) {
+		out += ` : ${write_literal(decl.title, indent)}`;
+		if(has_default) out += ` : ${typeof decl.default === 'string' ? write_value(decl.default, true) : write_expr(decl.default)}`;
+		if(decl.description) out += `${has_default ? '' : ' :'} : ${write_literal(decl.description, indent)}`;
+	} else if(decl.description) {
+		// A lone description that the parser would take for a title is written out in full.
+		out += looks_like_description(decl.description)
+			? ` : ${write_literal(decl.description, indent)}`
+			: ` : "" : : ${write_literal(decl.description, indent)}`;
+	}
+	
+	if(decl.choices) {
+		out += ` =\n${indent}[\n`;
+		for(const choice of decl.choices) {
+			out += write_leading_comments(choice.comments, indent + '\t');
+			out += `${indent}\t${write_value(String(choice.id), true)} : ${write_quoted(String(choice.name))}`;
+			if(choice.default !== undefined && choice.default !== null) {
+				const cdflt = typeof choice.default === 'boolean' ? (choice.default ? '1' : '0') : write_value(String(choice.default), true);
+				out += ` : ${cdflt}`;
+				if(choice.description !== undefined) out += ` : ${write_quoted(String(choice.description))}`;
+			}
+			out += write_trailing_comment(choice.comments) + '\n';
+		}
+		out += `${indent}]`;
+	}
+	return out + write_trailing_comment(decl.comments);
+}
+
+export function write_class(decl: FGDClassDecl): string {
+	let out = write_leading_comments(decl.comments) + `@${decl.kind}`;
+	for(const base of decl.impl) {
+		out += ' ' + write_class_base(base);
+	}
+	if(!UUID.test(decl.name)) {
+		out += ` = ${decl.name}`;
+	}
+	if(decl.desc !== undefined) {
+		out += ` : ${write_literal(decl.desc)}`;
+	}
+	if(decl.body.length === 0) {
+		return out + `\n[\n]${write_trailing_comment(decl.comments)}\n`;
+	}
+	out += '\n[\n';
+	for(const prop of decl.body) {
+		out += write_prop(prop) + '\n';
+	}
+	return out + `]${write_trailing_comment(decl.comments)}\n`;
+}
+
+export function write_node(node: FGDNode): string {
+	switch(node.type) {
+		case 'Class': return write_class(node);
+		case 'Version': return `@version(${node.version})\n`;
+		case 'Include': return `@include ${write_quoted(node.name)}\n`;
+		case 'Exclude': return `@exclude ${node.name}\n`;
+		case 'MapSize': return `@mapsize(${node.x}, ${node.y})\n`;
+		case 'MaterialExclusion': {
+			return `@MaterialExclusion\n[\n${node.list.map(item => `\t${write_quoted(item)}\n`).join('')}]\n`;
+		}
+		case 'AutoVisGroup': {
+			let out = `@AutoVisGroup = ${write_quoted(node.name)}\n[\n`;
+			for(const [group, items] of Object.entries(node.groups)) {
+				out += `\t${write_quoted(group)}\n\t[\n${items.map(item => `\t\t${write_quoted(item)}\n`).join('')}\t]\n`;
+			}
+			return out + ']\n';
+		}
+		case 'EntityGroup': {
+			return `@EntityGroup ${write_quoted(node.name)}${node.meta ? ' ' + write_record(node.meta) : ''}\n`;
+		}
+		case 'VisGroupFilter': {
+			const args = Object.entries(node.args).map(([key, value]) => `\t${key} = ${write_quoted(String(value))}\n`);
+			return `@VisGroupFilter\n{\n${args.join('')}}\n`;
+		}
+		case '__PARSER_METADATA__': return '';
+	}
+}
+
+/// Writes nodes back to FGD syntax. Parsing the result gives back the same nodes, apart from their spans.
+export function write(nodes: Iterable<FGDNode>): string {
+	const out: string[] = [];
+	for(const node of nodes) {
+		const text = write_node(node);
+		if(text) out.push(text);
+	}
+	return out.join('\n');
+}